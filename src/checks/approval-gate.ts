@@ -16,6 +16,7 @@ interface ApprovalStatus {
 
 export class ApprovalGateCheck implements CheckType {
   name = "approval_gate";
+  requiresPullRequest = true;
 
   async execute(ctx: CheckContext): Promise<CheckResult> {
     const rule = ctx.rule as ApprovalGateRule;
@@ -66,9 +67,9 @@ export class ApprovalGateCheck implements CheckType {
     ];
     const modeText = mode === "all" ? "all of" : "at least one of";
 
-    // Auto-request missing reviewers if enabled
+    // Auto-request missing reviewers if enabled (never in a dry run)
     let autoRequestNote = "";
-    if (rule.config.auto_request_reviewers) {
+    if (rule.config.auto_request_reviewers && !ctx.dryRun) {
       const missingTeams = required_teams.filter((t) =>
         status.missingRequirements.includes(`@${t}`),
       );
@@ -106,7 +107,7 @@ export class ApprovalGateCheck implements CheckType {
         {
           owner: ctx.owner,
           repo: ctx.repo,
-          pull_number: ctx.pr.number,
+          pull_number: ctx.pr.number!,
           per_page: 100,
         },
       ),
@@ -193,7 +194,7 @@ export class ApprovalGateCheck implements CheckType {
           {
             owner: ctx.owner,
             repo: ctx.repo,
-            pull_number: ctx.pr.number,
+            pull_number: ctx.pr.number!,
             reviewers: users,
             team_reviewers: teams,
           },
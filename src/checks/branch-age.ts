@@ -4,6 +4,8 @@ import { withRetry } from "../services/retry.js";
 
 export class BranchAgeCheck implements CheckType {
   name = "branch_age";
+  // In the merge queue the merge base is the queue's base commit, not the branch point
+  requiresPullRequest = true;
 
   async execute(ctx: CheckContext): Promise<CheckResult> {
     const rule = ctx.rule as BranchAgeRule;
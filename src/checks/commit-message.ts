@@ -0,0 +1,115 @@
+import type { CheckContext, CheckResult, CommitMessageRule } from "../types.js";
+import type { CheckType } from "../types.js";
+import { withRetry } from "../services/retry.js";
+
+const PER_PAGE = 100;
+
+/**
+ * Conventional Commits subject line: `type(scope)!: description`.
+ * See https://www.conventionalcommits.org/en/v1.0.0/
+ */
+const CONVENTIONAL_COMMITS_REGEX =
+  /^(build|chore|ci|docs|feat|fix|perf|refactor|revert|style|test)(\([^()\r\n]+\))?!?: \S.*$/;
+
+const FIXUP_PREFIXES = ["fixup! ", "squash! ", "amend! "];
+
+interface PrCommit {
+  sha: string;
+  message: string;
+  parentCount: number;
+}
+
+export class CommitMessageCheck implements CheckType {
+  name = "commit_message";
+  requiresPullRequest = true;
+
+  async execute(ctx: CheckContext): Promise<CheckResult> {
+    const rule = ctx.rule as CommitMessageRule;
+    const { pattern, preset, ignore_merge_commits, ignore_fixup_commits } = rule.config;
+
+    const matchers: RegExp[] = [];
+    if (preset === "conventional") matchers.push(CONVENTIONAL_COMMITS_REGEX);
+    if (pattern !== undefined) matchers.push(new RegExp(pattern));
+
+    const commits = await this.getPrCommits(ctx);
+
+    const checked = commits.filter((c) => {
+      if (ignore_merge_commits && c.parentCount > 1) return false;
+      if (ignore_fixup_commits && FIXUP_PREFIXES.some((p) => c.message.startsWith(p))) return false;
+      return true;
+    });
+
+    // Only the subject (first line) is validated
+    const offending = checked.filter((c) => {
+      const subject = c.message.split("\n")[0];
+      return !matchers.every((m) => m.test(subject));
+    });
+
+    const convention = describeConvention(preset, pattern);
+
+    if (offending.length === 0) {
+      return {
+        conclusion: "success",
+        title: "Commit messages follow the convention",
+        summary: `All ${checked.length} checked commit message(s) match ${convention}.`,
+      };
+    }
+
+    const offendingList = offending
+      .map((c) => `- \`${c.sha.slice(0, 7)}\` ${c.message.split("\n")[0]}`)
+      .join("\n");
+
+    return {
+      conclusion: "failure",
+      title: `${offending.length} commit message(s) don't follow the convention`,
+      summary: `Commit messages must match ${convention}. Reword the commits below (e.g. with \`git rebase -i\`) and force-push.`,
+      details: `**Offending commits:**\n${offendingList}`,
+    };
+  }
+
+  private async getPrCommits(ctx: CheckContext): Promise<PrCommit[]> {
+    const commits: PrCommit[] = [];
+    let page = 1;
+
+    while (true) {
+      const response = await withRetry(() =>
+        ctx.octokit.request(
+          "GET /repos/{owner}/{repo}/pulls/{pull_number}/commits",
+          {
+            owner: ctx.owner,
+            repo: ctx.repo,
+            pull_number: ctx.pr.number!,
+            per_page: PER_PAGE,
+            page,
+          },
+        ),
+      );
+
+      const data = response.data as Array<{
+        sha: string;
+        commit: { message: string };
+        parents: Array<{ sha: string }>;
+      }>;
+
+      for (const commit of data) {
+        commits.push({
+          sha: commit.sha,
+          message: commit.commit.message,
+          parentCount: commit.parents.length,
+        });
+      }
+
+      if (data.length < PER_PAGE) break;
+      page++;
+    }
+
+    return commits;
+  }
+}
+
+function describeConvention(preset: string | undefined, pattern: string | undefined): string {
+  const parts: string[] = [];
+  if (preset === "conventional") parts.push("the Conventional Commits format (`type(scope): description`)");
+  if (pattern !== undefined) parts.push(`the pattern \`${pattern}\``);
+  return parts.join(" and ");
+}
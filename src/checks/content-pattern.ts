@@ -0,0 +1,109 @@
+import type { CheckAnnotation, CheckContext, CheckResult, ContentPatternRule } from "../types.js";
+import type { CheckType } from "../types.js";
+import { matchChangedFiles } from "../services/file-matcher.js";
+import { getAddedLines } from "../services/diff-parser.js";
+
+const MAX_DETAILS_ENTRIES = 50;
+
+interface CompiledPattern {
+  regex: RegExp;
+  pattern: string;
+  message?: string;
+}
+
+export class ContentPatternCheck implements CheckType {
+  name = "content_pattern";
+
+  async execute(ctx: CheckContext): Promise<CheckResult> {
+    const rule = ctx.rule as ContentPatternRule;
+    const forbidden = compile(rule.config.forbidden);
+    const required = compile(rule.config.required);
+
+    const matching = new Set(matchChangedFiles(ctx.pr, rule.on.paths));
+    const files = (ctx.pr.files ?? []).filter(
+      (f) => matching.has(f.filename) && f.status !== "removed",
+    );
+
+    const annotations: CheckAnnotation[] = [];
+    const unscanned: string[] = [];
+
+    for (const file of files) {
+      // GitHub omits the patch for binary files and very large diffs
+      if (file.patch === undefined) {
+        if (file.additions > 0) unscanned.push(file.filename);
+        continue;
+      }
+
+      const addedLines = getAddedLines(file.patch);
+
+      for (const { line, content } of addedLines) {
+        for (const p of forbidden) {
+          if (p.regex.test(content)) {
+            annotations.push({
+              path: file.filename,
+              startLine: line,
+              endLine: line,
+              level: "failure",
+              title: "Forbidden content",
+              message: p.message ?? `Line matches the forbidden pattern \`${p.pattern}\``,
+            });
+          }
+        }
+      }
+
+      // Required patterns apply to new files, whose patch is the whole file
+      if (file.status === "added") {
+        const content = addedLines.map((l) => l.content).join("\n");
+        for (const p of required) {
+          if (!p.regex.test(content)) {
+            annotations.push({
+              path: file.filename,
+              startLine: 1,
+              endLine: 1,
+              level: "failure",
+              title: "Missing required content",
+              message: p.message ?? `New file must match the pattern \`${p.pattern}\``,
+            });
+          }
+        }
+      }
+    }
+
+    const unscannedNote = unscanned.length > 0
+      ? `\n\n${unscanned.length} file(s) could not be scanned because GitHub did not return a diff: ${unscanned.map((f) => `\`${f}\``).join(", ")}`
+      : "";
+
+    if (annotations.length === 0) {
+      return {
+        conclusion: "success",
+        title: "No content violations",
+        summary: `Scanned the added lines of ${files.length - unscanned.length} file(s).${unscannedNote}`,
+      };
+    }
+
+    const listed = annotations
+      .slice(0, MAX_DETAILS_ENTRIES)
+      .map((a) => `- \`${a.path}:${a.startLine}\` — ${a.message}`);
+    if (annotations.length > MAX_DETAILS_ENTRIES) {
+      listed.push(`- ...and ${annotations.length - MAX_DETAILS_ENTRIES} more`);
+    }
+
+    return {
+      conclusion: "failure",
+      title: `${annotations.length} content violation(s) found`,
+      summary: `The added lines of this PR contain forbidden content or new files are missing required content. See the annotations on the changed files.${unscannedNote}`,
+      details: `**Violations:**\n${listed.join("\n")}`,
+      annotations,
+    };
+  }
+}
+
+function compile(
+  entries: Array<{ pattern: string; message?: string }> | undefined,
+): CompiledPattern[] {
+  return (entries ?? []).map((e) => ({
+    regex: new RegExp(e.pattern),
+    pattern: e.pattern,
+    message: e.message,
+  }));
+}
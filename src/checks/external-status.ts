@@ -1,6 +1,7 @@
-import type { CheckContext, CheckResult, ExternalStatusRule } from "../types.js";
+import type { CheckContext, CheckResult, ExternalStatusRule, Severity } from "../types.js";
 import type { CheckType } from "../types.js";
 import { withRetry } from "../services/retry.js";
+import { lazyStateStore, type StateStore } from "../services/state-store.js";
 
 export interface PendingEvaluation {
   owner: string;
@@ -11,14 +12,24 @@ export interface PendingEvaluation {
   checkRunId: number;
   createdAt: number;
   timeoutMinutes: number;
+  /** Conclusion to post when the timeout elapses (defaults to failure). */
+  timeoutConclusion?: "failure" | "neutral";
+  /** PR that triggered the evaluation, used to update the sticky comment on timeout. */
+  prNumber?: number;
+  /** Whether the rule posts to the sticky PR comment (`notify`). */
+  notify?: boolean;
+  /** Rule severity; warning/info failures resolve as neutral. */
+  severity?: Severity;
 }
 
+export type PendingEvaluationStore = StateStore<PendingEvaluation>;
+
 /**
- * In-memory store of pending external_status evaluations.
+ * Store of pending external_status evaluations.
  * Keyed by `${owner}/${repo}:${headSha}:${ruleName}`.
- * Lost on restart — fallback re-evaluation covers this.
+ * Backend is selected by `STATE_STORE` — use `file` to survive restarts.
  */
-const pendingEvaluations = new Map<string, PendingEvaluation>();
+const pendingEvaluations: PendingEvaluationStore = lazyStateStore<PendingEvaluation>("pending-evaluations");
 
 export function getPendingKey(owner: string, repo: string, headSha: string, ruleName: string): string {
   return `${owner}/${repo}:${headSha}:${ruleName}`;
@@ -48,7 +59,7 @@ export function getPendingEvaluationsForSha(
 ): PendingEvaluation[] {
   const prefix = `${owner}/${repo}:${headSha}:`;
   const results: PendingEvaluation[] = [];
-  for (const [key, evaluation] of pendingEvaluations) {
+  for (const [key, evaluation] of pendingEvaluations.entries()) {
     if (key.startsWith(prefix)) {
       results.push(evaluation);
     }
@@ -56,6 +67,14 @@ export function getPendingEvaluationsForSha(
   return results;
 }
 
+/**
+ * Get every pending evaluation across all repos.
+ * Used on startup to resume evaluations persisted before a restart.
+ */
+export function getAllPendingEvaluations(): PendingEvaluation[] {
+  return pendingEvaluations.entries().map(([, evaluation]) => evaluation);
+}
+
 export function clearPendingEvaluations(): void {
   pendingEvaluations.clear();
 }
@@ -87,8 +106,7 @@ export class ExternalStatusCheck implements CheckType {
 
     if (allCompleted && !anyFailed) {
       // All required checks passed
-      const key = getPendingKey(ctx.owner, ctx.repo, ctx.pr.headSha, rule.name);
-      deletePendingEvaluation(key);
+      this.clearPending(ctx);
 
       return {
         conclusion: "success",
@@ -102,8 +120,7 @@ export class ExternalStatusCheck implements CheckType {
         .filter((s) => s.status === "completed" && s.conclusion !== "success")
         .map((s) => s.name);
 
-      const key = getPendingKey(ctx.owner, ctx.repo, ctx.pr.headSha, rule.name);
-      deletePendingEvaluation(key);
+      this.clearPending(ctx);
 
       return {
         conclusion: "failure",
@@ -125,7 +142,18 @@ export class ExternalStatusCheck implements CheckType {
   }
 
   /**
-   * Resolve a pending evaluation reactively (called from check_run.completed handler).
+   * Drop the rule's pending evaluation once its required checks have
+   * finished. Dry runs leave it for the webhook or sweeper to complete the
+   * check run it belongs to.
+   */
+  private clearPending(ctx: CheckContext): void {
+    if (ctx.dryRun) return;
+    deletePendingEvaluation(getPendingKey(ctx.owner, ctx.repo, ctx.pr.headSha, ctx.rule.name));
+  }
+
+  /**
+   * Resolve a pending evaluation reactively (called from the check_run.completed
+   * handler, on startup, and by the background timeout sweeper).
    * Returns the updated CheckResult, or null if still pending.
    */
   async resolveIfReady(
@@ -141,7 +169,7 @@ export class ExternalStatusCheck implements CheckType {
       deletePendingEvaluation(key);
 
       return {
-        conclusion: "failure",
+        conclusion: evaluation.timeoutConclusion ?? "failure",
         title: "Timed out waiting for required checks",
         summary: `Required checks did not complete within ${evaluation.timeoutMinutes} minutes: ${evaluation.requiredChecks.join(", ")}`,
       };
@@ -0,0 +1,71 @@
+import type { CheckContext, CheckResult, FileAbsentRule } from "../types.js";
+import type { CheckType } from "../types.js";
+import { getFilteredTree } from "../services/github-trees.js";
+
+/** Forbidden files listed in the check run details before truncating. */
+const MAX_LISTED_FILES = 50;
+
+export class FileAbsentCheck implements CheckType {
+  name = "file_absent";
+
+  async execute(ctx: CheckContext): Promise<CheckResult> {
+    const rule = ctx.rule as FileAbsentRule;
+    const { forbidden, allowed, introduced_only } = rule.config;
+
+    // Scan the whole head tree rather than the diff, so files added in an
+    // earlier commit on the branch (or already on base) are caught too
+    const [headFiles, baseFiles] = await Promise.all([
+      getFilteredTree(ctx.octokit, ctx.owner, ctx.repo, ctx.pr.headSha, forbidden, allowed),
+      introduced_only
+        ? getFilteredTree(ctx.octokit, ctx.owner, ctx.repo, ctx.pr.baseSha, forbidden, allowed)
+        : Promise.resolve([]),
+    ]);
+
+    const baseSet = new Set(baseFiles);
+    const found = headFiles.filter((f) => !baseSet.has(f));
+
+    ctx.logger.debug(
+      { headCount: headFiles.length, introducedOnly: introduced_only, found: found.length },
+      "Scanned head tree for forbidden files",
+    );
+
+    const scope = introduced_only ? "introduced by this PR" : "on this branch";
+
+    if (found.length === 0) {
+      return {
+        conclusion: "success",
+        title: "No forbidden files",
+        summary: `No files ${scope} match ${formatList(forbidden)}.`,
+      };
+    }
+
+    let details = `**Forbidden files:**\n${found.slice(0, MAX_LISTED_FILES).map((f) => `- ${f}`).join("\n")}`;
+    if (found.length > MAX_LISTED_FILES) {
+      details += `\n- …and ${found.length - MAX_LISTED_FILES} more`;
+    }
+    details += "\n\nRemove these files from the branch (e.g. `git rm --cached <file>`) and add them to `.gitignore`.";
+
+    // Only files changed by this PR appear in its diff and can be annotated
+    const foundSet = new Set(found);
+    const annotated = ctx.pr.changedFiles.filter((f) => foundSet.has(f));
+
+    return {
+      conclusion: "failure",
+      title: `${found.length} forbidden file(s) found`,
+      summary: `Files ${scope} must not match ${formatList(forbidden)}.`,
+      details,
+      annotations: annotated.map((path) => ({
+        path,
+        startLine: 1,
+        endLine: 1,
+        level: "failure" as const,
+        title: "Forbidden file",
+        message: "Files matching this path must not be committed. Remove the file from the branch.",
+      })),
+    };
+  }
+}
+
+function formatList(values: string[]): string {
+  return values.map((v) => `\`${v}\``).join(", ");
+}
@@ -1,14 +1,21 @@
 import type { CheckContext, CheckResult, FilePairRule } from "../types.js";
 import type { CheckType } from "../types.js";
+import { matchChangedFiles } from "../services/file-matcher.js";
+import { compileTemplate, renderTemplate } from "../services/path-template.js";
 
 export class FilePairCheck implements CheckType {
   name = "file_pair";
 
   async execute(ctx: CheckContext): Promise<CheckResult> {
     const rule = ctx.rule as FilePairRule;
+
+    if (rule.config.companion_pattern) {
+      return this.executePattern(ctx, rule);
+    }
+
     const companions = Array.isArray(rule.config.companion)
       ? rule.config.companion
-      : [rule.config.companion];
+      : [rule.config.companion!];
     const mode = rule.config.mode; // "any" or "all" (defaults to "any" via Zod)
 
     const changedSet = new Set(ctx.pr.changedFiles);
@@ -40,10 +47,87 @@ export class FilePairCheck implements CheckType {
     // Build a human-readable trigger description
     const triggerPatterns = rule.on.paths.include.join(", ");
 
+    // Point at the files that triggered the rule so the failure shows up in the Files tab
+    const missingNames = missingCompanions.map((c) => c.file).join(", ");
+    const triggerFiles = matchChangedFiles(ctx.pr, rule.on.paths);
+
     return {
       conclusion: "failure",
       title: "Missing companion file update",
       summary: `Changes matching \`${triggerPatterns}\` require the following companion file(s) to also be updated:\n\n${missingList}`,
+      annotations: triggerFiles.map((file) => ({
+        path: file,
+        startLine: 1,
+        endLine: 1,
+        level: "failure" as const,
+        title: "Missing companion file update",
+        message: `This change requires updating: ${missingNames}`,
+      })),
+    };
+  }
+
+  /**
+   * Each changed file matching `from` needs its own counterpart(s), derived
+   * by filling the `to` template(s) with the values captured from its path.
+   */
+  private executePattern(ctx: CheckContext, rule: FilePairRule): CheckResult {
+    const { from, to } = rule.config.companion_pattern!;
+    const targets = Array.isArray(to) ? to : [to];
+    const mode = rule.config.mode;
+    const match = compileTemplate(from);
+
+    // Deleting a file doesn't require touching its counterpart
+    const removed = new Set(
+      (ctx.pr.files ?? []).filter((f) => f.status === "removed").map((f) => f.filename),
+    );
+    const changedSet = new Set(ctx.pr.changedFiles);
+    const candidates = matchChangedFiles(ctx.pr, rule.on.paths)
+      .filter((file) => !removed.has(file));
+
+    const unpaired: Array<{ file: string; missing: string[] }> = [];
+    let triggerCount = 0;
+
+    for (const file of candidates) {
+      const captures = match(file);
+      if (!captures) continue;
+      triggerCount++;
+
+      const counterparts = targets.map((t) => renderTemplate(t, captures));
+      const missing = counterparts.filter((c) => !changedSet.has(c));
+
+      const passed = mode === "all"
+        ? missing.length === 0
+        : missing.length < counterparts.length;
+
+      if (!passed) unpaired.push({ file, missing });
+    }
+
+    if (unpaired.length === 0) {
+      return {
+        conclusion: "success",
+        title: "Companion file(s) updated",
+        summary: `All ${triggerCount} file(s) matching \`${from}\` have their companion file(s) updated.`,
+      };
+    }
+
+    const joiner = mode === "all" ? " and " : " or ";
+    const unpairedList = unpaired
+      .map((u) => `- \`${u.file}\` → ${u.missing.map((m) => `\`${m}\``).join(joiner)}`)
+      .join("\n");
+
+    return {
+      conclusion: "failure",
+      title: `Missing companion update for ${unpaired.length} file(s)`,
+      summary: `Changed files matching \`${from}\` require a matching update to \`${targets.join("`, `")}\`.`,
+      details: `**Missing companions:**\n${unpairedList}`,
+      annotations: unpaired.map((u) => ({
+        path: u.file,
+        startLine: 1,
+        endLine: 1,
+        level: "failure" as const,
+        title: "Missing companion file update",
+        message: `This change requires updating: ${u.missing.join(joiner)}`,
+      })),
     };
   }
 }
@@ -63,11 +63,26 @@ export class FilePresenceCheck implements CheckType {
       details += `\n\n**Allowed deletions (via PR description):**\n${allowedList}`;
     }
 
+    // Only files this PR deleted appear in its diff and can be annotated;
+    // files added to base after the branch was cut are listed in the details
+    const trulyMissingSet = new Set(trulyMissing);
+    const deletedByPr = (ctx.pr.files ?? []).filter(
+      (f) => f.status === "removed" && trulyMissingSet.has(f.filename),
+    );
+
     return {
       conclusion: "failure",
       title: `Missing ${trulyMissing.length} file(s) from ${ctx.pr.baseBranch}`,
       summary: `This branch is missing files that exist on ${ctx.pr.baseBranch}.`,
       details,
+      annotations: deletedByPr.map((f) => ({
+        path: f.filename,
+        startLine: 1,
+        endLine: 1,
+        level: "failure" as const,
+        title: "File removed",
+        message: `This file exists on ${ctx.pr.baseBranch} and must not be removed. Restore it, or allow the deletion in the PR description.`,
+      })),
     };
   }
 }
@@ -0,0 +1,130 @@
+import type { ChangedFile, CheckContext, CheckResult, FileSizeRule } from "../types.js";
+import type { CheckType } from "../types.js";
+import { getTreeFiles } from "../services/github-trees.js";
+import { matchChangedFiles, matchFiles } from "../services/file-matcher.js";
+
+interface SizedFile {
+  path: string;
+  size: number;
+  binary: boolean;
+}
+
+export class FileSizeCheck implements CheckType {
+  name = "file_size";
+
+  async execute(ctx: CheckContext): Promise<CheckResult> {
+    const rule = ctx.rule as FileSizeRule;
+    const { max_bytes, forbid_binaries, allowed_binary_paths } = rule.config;
+
+    const matching = new Set(matchChangedFiles(ctx.pr, rule.on.paths));
+
+    // Renames only change content if the blob differs from the base one
+    const hasRenames = (ctx.pr.files ?? []).some((f) => f.status === "renamed");
+    const [headFiles, baseFiles] = await Promise.all([
+      getTreeFiles(ctx.octokit, ctx.owner, ctx.repo, ctx.pr.headSha),
+      hasRenames ? getTreeFiles(ctx.octokit, ctx.owner, ctx.repo, ctx.pr.baseSha) : Promise.resolve([]),
+    ]);
+    const headBlobs = new Map(headFiles.map((f) => [f.path, f]));
+    const baseShas = new Map(baseFiles.map((f) => [f.path, f.sha]));
+
+    // Without per-file details every matching file on head is checked for
+    // size, but binaries can't be told apart
+    const changes: Array<{ filename: string; file?: ChangedFile }> = ctx.pr.files
+      ? ctx.pr.files
+        .filter((file) => changesContent(file, headBlobs.get(file.filename)?.sha, baseShas))
+        .map((file) => ({ filename: file.filename, file }))
+      : ctx.pr.changedFiles.map((filename) => ({ filename }));
+
+    const files: SizedFile[] = [];
+    for (const { filename, file } of changes) {
+      const size = headBlobs.get(filename)?.size;
+      if (!matching.has(filename) || size === undefined) continue;
+
+      files.push({ path: filename, size, binary: file !== undefined && isBinary(file, size) });
+    }
+
+    const oversized = max_bytes === undefined ? [] : files.filter((f) => f.size > max_bytes);
+    const binaryPaths = forbid_binaries ? files.filter((f) => f.binary).map((f) => f.path) : [];
+    const allowedBinaries = new Set(matchFiles(binaryPaths, allowed_binary_paths));
+    const binaries = binaryPaths.filter((path) => !allowedBinaries.has(path));
+
+    ctx.logger.debug(
+      { checked: files.length, oversized: oversized.length, binaries: binaries.length },
+      "Checked file sizes",
+    );
+
+    if (oversized.length === 0 && binaries.length === 0) {
+      return {
+        conclusion: "success",
+        title: "File sizes within limits",
+        summary: `All ${files.length} added or modified file(s) are within the limits.`,
+      };
+    }
+
+    const problems: string[] = [];
+    const sections: string[] = [];
+
+    if (oversized.length > 0) {
+      problems.push(`${oversized.length} file(s) over ${formatBytes(max_bytes!)}`);
+      sections.push(`**Too large (limit: ${formatBytes(max_bytes!)}):**\n${oversized.map((f) => `- ${f.path} (${formatBytes(f.size)})`).join("\n")}`);
+    }
+    if (binaries.length > 0) {
+      problems.push(`${binaries.length} binary file(s)`);
+      sections.push(`**Binary files:**\n${binaries.map((path) => `- ${path}`).join("\n")}`);
+    }
+
+    sections.push("Track large and binary files with Git LFS (`git lfs track \"<pattern>\"`) instead of committing them to the repository.");
+
+    const binarySet = new Set(binaries);
+
+    return {
+      conclusion: "failure",
+      title: `Found ${problems.join(" and ")}`,
+      summary: "Large and binary files bloat the repository for everyone who clones it.",
+      details: sections.join("\n\n"),
+      annotations: files
+        .filter((f) => binarySet.has(f.path) || (max_bytes !== undefined && f.size > max_bytes))
+        .map((f) => ({
+          path: f.path,
+          startLine: 1,
+          endLine: 1,
+          level: "failure" as const,
+          title: binarySet.has(f.path) ? "Binary file" : "File too large",
+          message: binarySet.has(f.path)
+            ? "Binary files aren't allowed here. Track this file with Git LFS instead."
+            : `This file is ${formatBytes(f.size)}, over the ${formatBytes(max_bytes!)} limit. Track it with Git LFS instead.`,
+        })),
+    };
+  }
+}
+
+/**
+ * Added or modified files. Removals and mode-only changes (`changed`) add no
+ * content, and a rename only does if its blob differs from the one on base.
+ */
+function changesContent(file: ChangedFile, headSha: string | undefined, baseShas: Map<string, string>): boolean {
+  switch (file.status) {
+    case "removed":
+    case "changed":
+    case "unchanged":
+      return false;
+    case "renamed":
+      return headSha !== baseShas.get(file.previousFilename ?? file.filename);
+    default:
+      return true;
+  }
+}
+
+/**
+ * GitHub doesn't render a diff for binary files: they have no patch and no
+ * line counts. Large text files also lose their patch, but keep line counts.
+ */
+function isBinary(file: ChangedFile, size: number): boolean {
+  return size > 0 && file.patch === undefined && file.additions === 0 && file.deletions === 0;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,111 @@
+import type { CheckContext, CheckResult, ImmutableFilesRule } from "../types.js";
+import type { CheckType } from "../types.js";
+import { getTree } from "../services/github-trees.js";
+import { matchChangedFiles, matchFiles } from "../services/file-matcher.js";
+import { getAllowedFilesForRule } from "../services/allowlist-parser.js";
+
+interface ChangedImmutableFile {
+  /** Path of the file on the base branch */
+  path: string;
+  /** Path shown in the PR diff (differs from `path` for renames) */
+  filename: string;
+  change: "modified" | "removed" | "renamed";
+}
+
+export class ImmutableFilesCheck implements CheckType {
+  name = "immutable_files";
+
+  async execute(ctx: CheckContext): Promise<CheckResult> {
+    const rule = ctx.rule as ImmutableFilesRule;
+    const { include, exclude } = rule.on.paths;
+
+    const matching = new Set(matchChangedFiles(ctx.pr, rule.on.paths));
+    const baseFiles = new Set(
+      await getTree(ctx.octokit, ctx.owner, ctx.repo, ctx.pr.baseSha),
+    );
+
+    // Without per-file details every changed file that exists on base is
+    // treated as modified
+    const files = ctx.pr.files ??
+      ctx.pr.changedFiles.map((filename) => ({ filename, status: "modified" as const, previousFilename: undefined }));
+
+    const changed: ChangedImmutableFile[] = [];
+    let added = 0;
+
+    for (const file of files) {
+      if (!matching.has(file.filename)) continue;
+
+      // A rename changes the file at its previous path; a copy leaves it intact
+      const path = file.status === "renamed" ? file.previousFilename ?? file.filename : file.filename;
+      if (!baseFiles.has(path) || matchFiles([path], include, exclude).length === 0) {
+        added++;
+        continue;
+      }
+
+      const change = file.status === "removed" || file.status === "renamed" ? file.status : "modified";
+      if (change === "removed" && rule.config.allow_deletions) continue;
+
+      changed.push({ path, filename: file.filename, change });
+    }
+
+    ctx.logger.debug({ changed: changed.length, added }, "Checked immutable files against base");
+
+    const addedNote = added > 0 ? ` ${added} new file(s) added.` : "";
+
+    if (changed.length === 0) {
+      return {
+        conclusion: "success",
+        title: "No immutable files changed",
+        summary: `No file matching this rule that exists on ${ctx.pr.baseBranch} was modified or deleted.${addedNote}`,
+      };
+    }
+
+    // Check for allowlisted files via PR body
+    const allowedEntries = getAllowedFilesForRule(ctx.pr.prBody, rule.name);
+    const allowedPaths = new Set(allowedEntries.map((e) => e.filePath));
+
+    const violations = changed.filter((f) => !allowedPaths.has(f.path));
+    const changedPaths = new Set(changed.map((f) => f.path));
+
+    const allowedList = allowedEntries
+      .filter((e) => changedPaths.has(e.filePath))
+      .map((e) => `- ${e.filePath}${e.reason ? ` (${e.reason})` : ""}`)
+      .join("\n");
+
+    if (violations.length === 0) {
+      return {
+        conclusion: "success",
+        title: `No immutable files changed (${changed.length} allowed change(s))`,
+        summary: `Every changed file that exists on ${ctx.pr.baseBranch} is explicitly allowed.${addedNote}`,
+        details: `**Allowed changes (via PR description):**\n${allowedList}`,
+      };
+    }
+
+    const violationList = violations.map((f) => `- ${describeChange(f)}`).join("\n");
+    let details = `**Changed:**\n${violationList}\n\nAdd a new file instead of editing an existing one.`;
+
+    if (allowedList) {
+      details += `\n\n**Allowed changes (via PR description):**\n${allowedList}`;
+    }
+
+    return {
+      conclusion: "failure",
+      title: `${violations.length} immutable file(s) changed`,
+      summary: `Files matching this rule can't be modified or deleted once they exist on ${ctx.pr.baseBranch}.${addedNote}`,
+      details,
+      annotations: violations.map((f) => ({
+        path: f.filename,
+        startLine: 1,
+        endLine: 1,
+        level: "failure" as const,
+        title: "Immutable file changed",
+        message: `This file exists on ${ctx.pr.baseBranch} and must not be ${f.change}. Revert the change, or allow it in the PR description.`,
+      })),
+    };
+  }
+}
+
+function describeChange(file: ChangedImmutableFile): string {
+  if (file.change === "renamed") return `${file.path} (renamed to ${file.filename})`;
+  return `${file.path} (${file.change})`;
+}
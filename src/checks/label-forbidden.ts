@@ -0,0 +1,27 @@
+import type { CheckContext, CheckResult, LabelForbiddenRule } from "../types.js";
+import type { CheckType } from "../types.js";
+import { findLabels } from "../services/label-matcher.js";
+
+export class LabelForbiddenCheck implements CheckType {
+  name = "label_forbidden";
+  requiresPullRequest = true;
+
+  async execute(ctx: CheckContext): Promise<CheckResult> {
+    const rule = ctx.rule as LabelForbiddenRule;
+    const forbidden = findLabels(ctx.pr.labels ?? [], rule.config.labels);
+
+    if (forbidden.length === 0) {
+      return {
+        conclusion: "success",
+        title: "No blocking labels",
+        summary: `None of the following labels are present: ${rule.config.labels.map((l) => `\`${l}\``).join(", ")}`,
+      };
+    }
+
+    return {
+      conclusion: "failure",
+      title: `Blocked by label(s): ${forbidden.join(", ")}`,
+      summary: `Remove the following label(s) before merging: ${forbidden.map((l) => `\`${l}\``).join(", ")}`,
+    };
+  }
+}
@@ -0,0 +1,41 @@
+import type { CheckContext, CheckResult, LabelRequiredRule } from "../types.js";
+import type { CheckType } from "../types.js";
+import { findLabels } from "../services/label-matcher.js";
+
+export class LabelRequiredCheck implements CheckType {
+  name = "label_required";
+  requiresPullRequest = true;
+
+  async execute(ctx: CheckContext): Promise<CheckResult> {
+    const rule = ctx.rule as LabelRequiredRule;
+    const { labels, mode } = rule.config;
+
+    const present = findLabels(ctx.pr.labels ?? [], labels);
+    const missing = labels.filter((l) => !present.includes(l));
+
+    const passed = mode === "all" ? missing.length === 0 : present.length > 0;
+    const labelList = labels.map((l) => `\`${l}\``).join(", ");
+
+    if (passed) {
+      return {
+        conclusion: "success",
+        title: "Required label(s) present",
+        summary: `Found label(s): ${present.map((l) => `\`${l}\``).join(", ")}`,
+      };
+    }
+
+    if (mode === "all") {
+      return {
+        conclusion: "failure",
+        title: `Missing label(s): ${missing.join(", ")}`,
+        summary: `This PR must have all of the following labels: ${labelList}`,
+      };
+    }
+
+    return {
+      conclusion: "failure",
+      title: "Missing required label",
+      summary: `This PR must have at least one of the following labels: ${labelList}`,
+    };
+  }
+}
@@ -0,0 +1,146 @@
+import type { CheckContext, CheckResult, MigrationOrderRule } from "../types.js";
+import type { CheckType } from "../types.js";
+import { getFilteredTree } from "../services/github-trees.js";
+import { matchChangedFiles } from "../services/file-matcher.js";
+
+interface Migration {
+  path: string;
+  sequence: string;
+  /** Directory the sequence is scoped to (empty unless `per_directory`) */
+  group: string;
+}
+
+interface MigrationProblem {
+  migration: Migration;
+  message: string;
+}
+
+/** Migrations on base for one sequence scope. */
+interface BaseGroup {
+  newest: Migration;
+  bySequence: Map<string, Migration>;
+}
+
+export class MigrationOrderCheck implements CheckType {
+  name = "migration_order";
+
+  async execute(ctx: CheckContext): Promise<CheckResult> {
+    const rule = ctx.rule as MigrationOrderRule;
+    const { include, exclude } = rule.on.paths;
+    const regex = new RegExp(rule.config.pattern);
+    const base = ctx.pr.baseBranch;
+
+    const baseFiles = await getFilteredTree(ctx.octokit, ctx.owner, ctx.repo, ctx.pr.baseSha, include, exclude);
+    const baseSet = new Set(baseFiles);
+    const removed = new Set(
+      (ctx.pr.files ?? []).filter((f) => f.status === "removed").map((f) => f.filename),
+    );
+
+    const parse = (path: string) => parseMigration(path, regex, rule.config.per_directory);
+
+    const baseGroups = new Map<string, BaseGroup>();
+    for (const migration of baseFiles.map(parse)) {
+      if (!migration) continue;
+
+      const group = baseGroups.get(migration.group) ?? { newest: migration, bySequence: new Map() };
+      if (compareSequences(migration.sequence, group.newest.sequence) > 0) group.newest = migration;
+      group.bySequence.set(sequenceKey(migration.sequence), migration);
+      baseGroups.set(migration.group, group);
+    }
+
+    // Migrations this PR adds, oldest first. Files whose name doesn't match
+    // the pattern (e.g. snapshots or READMEs) aren't migrations.
+    const added = matchChangedFiles(ctx.pr, rule.on.paths)
+      .filter((path) => !baseSet.has(path) && !removed.has(path))
+      .map(parse)
+      .filter((m): m is Migration => m !== null)
+      .sort((a, b) => compareSequences(a.sequence, b.sequence));
+
+    ctx.logger.debug(
+      { baseCount: baseFiles.length, added: added.length },
+      "Comparing new migrations against base",
+    );
+
+    if (added.length === 0) {
+      return {
+        conclusion: "success",
+        title: "No new migrations",
+        summary: `This PR doesn't add any migration matching \`${rule.config.pattern}\`.`,
+      };
+    }
+
+    const problems: MigrationProblem[] = [];
+    const addedBySequence = new Map<string, Migration>();
+
+    for (const migration of added) {
+      const key = `${migration.group}\0${sequenceKey(migration.sequence)}`;
+      const group = baseGroups.get(migration.group);
+      const existing = group?.bySequence.get(sequenceKey(migration.sequence));
+      const sibling = addedBySequence.get(key);
+
+      if (existing) {
+        problems.push({ migration, message: `uses sequence \`${migration.sequence}\`, which already exists on ${base} (\`${existing.path}\`)` });
+      } else if (sibling) {
+        problems.push({ migration, message: `uses sequence \`${migration.sequence}\`, which \`${sibling.path}\` in this PR also uses` });
+      } else if (group && compareSequences(migration.sequence, group.newest.sequence) < 0) {
+        problems.push({ migration, message: `sorts before the newest migration on ${base} (\`${group.newest.path}\`)` });
+      }
+
+      addedBySequence.set(key, migration);
+    }
+
+    if (problems.length === 0) {
+      return {
+        conclusion: "success",
+        title: "Migrations in order",
+        summary: `All ${added.length} new migration(s) sort after the newest migration on ${base}.`,
+      };
+    }
+
+    const problemList = problems.map((p) => `- \`${p.migration.path}\` ${p.message}`).join("\n");
+
+    return {
+      conclusion: "failure",
+      title: `${problems.length} migration(s) out of order`,
+      summary: `New migrations must sort after every migration on ${base} and use a unique sequence.`,
+      details: `**Out of order:**\n${problemList}\n\nRebase on ${base} and renumber these migrations so they come after the newest one.`,
+      annotations: problems.map((p) => ({
+        path: p.migration.path,
+        startLine: 1,
+        endLine: 1,
+        level: "failure" as const,
+        title: "Migration out of order",
+        message: `This migration ${p.message}. Renumber it so it sorts after the newest migration.`,
+      })),
+    };
+  }
+}
+
+/**
+ * Extract the sequence from a migration's file name: the pattern's first
+ * capture group, or the whole match if it has none.
+ */
+function parseMigration(path: string, regex: RegExp, perDirectory: boolean): Migration | null {
+  const slash = path.lastIndexOf("/");
+  const match = regex.exec(path.slice(slash + 1));
+  const sequence = match?.[1] ?? match?.[0];
+  if (!sequence) return null;
+
+  return { path, sequence, group: perDirectory ? path.slice(0, Math.max(slash, 0)) : "" };
+}
+
+/** Numeric sequences compare by value, so `0042` and `42` are the same. */
+function sequenceKey(sequence: string): string {
+  return /^\d+$/.test(sequence) ? sequence.replace(/^0+(?=\d)/, "") : sequence;
+}
+
+function compareSequences(a: string, b: string): number {
+  const keyA = sequenceKey(a);
+  const keyB = sequenceKey(b);
+
+  // Compare digits by length first so timestamps of any size sort correctly
+  if (/^\d+$/.test(keyA) && /^\d+$/.test(keyB) && keyA.length !== keyB.length) {
+    return keyA.length - keyB.length;
+  }
+  return keyA < keyB ? -1 : keyA > keyB ? 1 : 0;
+}
@@ -0,0 +1,95 @@
+import type { CheckContext, CheckResult, PrMetadataRule } from "../types.js";
+import type { CheckType } from "../types.js";
+
+const HTML_COMMENT_REGEX = /<!--[\s\S]*?-->/g;
+const HEADING_REGEX = /^#{1,6}\s+(.+?)\s*#*\s*$/;
+
+export class PrMetadataCheck implements CheckType {
+  name = "pr_metadata";
+  requiresPullRequest = true;
+
+  async execute(ctx: CheckContext): Promise<CheckResult> {
+    const rule = ctx.rule as PrMetadataRule;
+    const { title_pattern, required_sections, min_body_length } = rule.config;
+
+    const title = ctx.pr.prTitle ?? "";
+    // Template placeholders are usually HTML comments — they don't count as content
+    const body = (ctx.pr.prBody ?? "").replace(HTML_COMMENT_REGEX, "");
+
+    const problems: string[] = [];
+
+    if (title_pattern !== undefined && !new RegExp(title_pattern).test(title)) {
+      problems.push(`Title \`${title}\` does not match the pattern \`${title_pattern}\``);
+    }
+
+    if (required_sections) {
+      const sections = parseSections(body);
+
+      for (const required of required_sections) {
+        const content = sections.get(normalizeHeading(required));
+        if (content === undefined) {
+          problems.push(`Missing section: **${required}**`);
+        } else if (content.trim().length === 0) {
+          problems.push(`Section **${required}** is empty`);
+        }
+      }
+    }
+
+    if (min_body_length !== undefined) {
+      const length = body.trim().length;
+      if (length < min_body_length) {
+        problems.push(`Description is ${length} character(s) long (minimum: ${min_body_length})`);
+      }
+    }
+
+    if (problems.length === 0) {
+      return {
+        conclusion: "success",
+        title: "PR title and description look good",
+        summary: "The PR title and description meet the configured requirements.",
+      };
+    }
+
+    const problemList = problems.map((p) => `- ${p}`).join("\n");
+
+    return {
+      conclusion: "failure",
+      title: `PR title or description needs attention (${problems.length} problem(s))`,
+      summary: `Edit the PR title or description to fix the following:\n\n${problemList}`,
+    };
+  }
+}
+
+/**
+ * Split a markdown body into sections keyed by normalized heading text.
+ * Each section's content runs until the next heading of any level.
+ */
+function parseSections(body: string): Map<string, string> {
+  const sections = new Map<string, string>();
+  let current: string | null = null;
+  let content: string[] = [];
+
+  const flush = () => {
+    if (current !== null && !sections.has(current)) {
+      sections.set(current, content.join("\n"));
+    }
+  };
+
+  for (const line of body.split(/\r?\n/)) {
+    const match = HEADING_REGEX.exec(line);
+    if (match) {
+      flush();
+      current = normalizeHeading(match[1]);
+      content = [];
+    } else if (current !== null) {
+      content.push(line);
+    }
+  }
+  flush();
+
+  return sections;
+}
+
+function normalizeHeading(heading: string): string {
+  return heading.replace(/^#+\s*/, "").trim().toLowerCase();
+}
@@ -0,0 +1,58 @@
+import type { CheckContext, CheckResult, PrSizeRule } from "../types.js";
+import type { CheckType } from "../types.js";
+import { matchChangedFiles } from "../services/file-matcher.js";
+
+export class PrSizeCheck implements CheckType {
+  name = "pr_size";
+
+  async execute(ctx: CheckContext): Promise<CheckResult> {
+    const rule = ctx.rule as PrSizeRule;
+    const { max_files, max_additions, max_deletions, max_changes } = rule.config;
+
+    // Only files matching on.paths count towards the limits, so generated
+    // files and lockfiles can be left out via exclude patterns
+    const counted = new Set(matchChangedFiles(ctx.pr, rule.on.paths));
+    const files = (ctx.pr.files ?? []).filter((f) => counted.has(f.filename));
+
+    const additions = files.reduce((sum, f) => sum + f.additions, 0);
+    const deletions = files.reduce((sum, f) => sum + f.deletions, 0);
+    const stats = {
+      files: counted.size,
+      additions,
+      deletions,
+      changes: additions + deletions,
+    };
+
+    const limits: Array<[string, number, number | undefined]> = [
+      ["Changed files", stats.files, max_files],
+      ["Added lines", stats.additions, max_additions],
+      ["Deleted lines", stats.deletions, max_deletions],
+      ["Total changed lines", stats.changes, max_changes],
+    ];
+
+    const exceeded = limits.filter(
+      ([, actual, max]) => max !== undefined && actual > max,
+    );
+
+    const statsLine =
+      `${stats.files} file(s), +${stats.additions} / -${stats.deletions} line(s)`;
+
+    if (exceeded.length === 0) {
+      return {
+        conclusion: "success",
+        title: "PR size within limits",
+        summary: `This PR changes ${statsLine}.`,
+      };
+    }
+
+    const exceededList = exceeded
+      .map(([label, actual, max]) => `- ${label}: ${actual} (limit: ${max})`)
+      .join("\n");
+
+    return {
+      conclusion: "failure",
+      title: `PR exceeds ${exceeded.length} size limit(s)`,
+      summary: `This PR changes ${statsLine}. Consider splitting it into smaller PRs.\n\n${exceededList}`,
+    };
+  }
+}
@@ -1,14 +1,16 @@
 import type { Probot, Context } from "probot";
-import {
-  ExternalStatusCheck,
-  getPendingEvaluationsForSha,
-  getPendingKey,
-  deletePendingEvaluation,
-} from "../checks/external-status.js";
-import { updateCheckRun } from "../services/check-runs.js";
-import { CHECK_NAME_PREFIX } from "../types.js";
+import type { Octokit } from "@octokit/core";
+import type { Logger } from "pino";
+import type { Config } from "../types.js";
+import { getPendingEvaluationsForSha } from "../checks/external-status.js";
+import { resolvePendingEvaluation } from "../services/pending-resolver.js";
+import { loadConfig } from "../services/config.js";
+import { OVERRIDE_ACTION_ID, RECHECK_ACTION_ID } from "../services/check-runs.js";
+import { canOverride, applyOverride } from "../services/overrides.js";
+import { evaluateOpenPrs, listOpenPrsForCommit } from "../services/open-prs.js";
+import { CHECK_NAME_PREFIX, ruleNameFromCheckRun } from "../types.js";
 
-const externalStatusCheck = new ExternalStatusCheck();
+const ACTION_OVERRIDE_REASON = "Approved with the check run's \"Approve override\" button";
 
 export function registerCheckRunHandler(app: Probot): void {
   app.on("check_run.completed", async (context: Context<"check_run.completed">) => {
@@ -55,49 +57,7 @@ export function registerCheckRunHandler(app: Probot): void {
 
     for (const evaluation of relevantEvals) {
       try {
-        const result = await externalStatusCheck.resolveIfReady(
-          {
-            octokit: context.octokit as any,
-            owner,
-            repo,
-            rule: {} as any, // Not needed for resolveIfReady
-            pr: {
-              number: 0, // Not needed for resolveIfReady
-              headSha,
-              baseBranch: "",
-              baseSha: "",
-              changedFiles: [],
-            },
-            logger,
-          },
-          evaluation,
-        );
-
-        if (result) {
-          // Check resolved — update the check run
-          await updateCheckRun(context.octokit as any, {
-            owner,
-            repo,
-            checkRunId: evaluation.checkRunId,
-            status: "completed",
-            conclusion: result.conclusion,
-            output: {
-              title: result.title,
-              summary: result.summary,
-              text: result.details,
-            },
-          });
-
-          logger.info(
-            { rule: evaluation.ruleName, conclusion: result.conclusion },
-            "External status check resolved",
-          );
-        } else {
-          logger.debug(
-            { rule: evaluation.ruleName },
-            "External status check still pending",
-          );
-        }
+        await resolvePendingEvaluation(context.octokit as any, evaluation, logger);
       } catch (error) {
         logger.error(
           { rule: evaluation.ruleName, error },
@@ -106,4 +66,117 @@ export function registerCheckRunHandler(app: Probot): void {
       }
     }
   });
+
+  app.on("check_run.requested_action", async (context: Context<"check_run.requested_action">) => {
+    const { payload } = context;
+    const ruleName = ruleNameFromCheckRun(payload.check_run.name);
+    if (!ruleName) return;
+
+    const owner = payload.repository.owner.login;
+    const repo = payload.repository.name;
+    const headSha = payload.check_run.head_sha;
+    const action = payload.requested_action?.identifier;
+    const sender = payload.sender.login;
+
+    const logger = context.log.child({
+      event: "check_run",
+      action: "requested_action",
+      owner,
+      repo,
+      rule: ruleName,
+      requestedAction: action,
+      sender,
+    });
+
+    if (action !== RECHECK_ACTION_ID && action !== OVERRIDE_ACTION_ID) {
+      logger.debug("Unknown requested action — skipping");
+      return;
+    }
+
+    const target = await findRuleTarget(context.octokit as any, owner, repo, ruleName, headSha, logger);
+    if (!target) return;
+    const { config, prs } = target;
+
+    if (action === OVERRIDE_ACTION_ID) {
+      const allowed = await canOverride(context.octokit as any, owner, sender, config.overrides, logger);
+      if (!allowed) {
+        logger.warn("Override rejected — user is not allowed to override rules");
+        for (const pr of prs) {
+          await context.octokit.request(
+            "POST /repos/{owner}/{repo}/issues/{issue_number}/comments",
+            {
+              owner,
+              repo,
+              issue_number: pr.number,
+              body: `@${sender} is not allowed to override BranchGuard rules.`,
+            },
+          );
+        }
+        return;
+      }
+
+      applyOverride({ owner, repo, headSha, ruleName, author: sender, reason: ACTION_OVERRIDE_REASON, createdAt: Date.now() });
+      logger.info("Override recorded");
+    }
+
+    await evaluateOpenPrs(context.octokit as any, owner, repo, config, prs, logger, [ruleName]);
+  });
+
+  app.on("check_run.rerequested", async (context: Context<"check_run.rerequested">) => {
+    const { payload } = context;
+    const ruleName = ruleNameFromCheckRun(payload.check_run.name);
+    if (!ruleName) return;
+
+    const owner = payload.repository.owner.login;
+    const repo = payload.repository.name;
+    const headSha = payload.check_run.head_sha;
+
+    const logger = context.log.child({
+      event: "check_run",
+      action: "rerequested",
+      owner,
+      repo,
+      rule: ruleName,
+    });
+
+    const target = await findRuleTarget(context.octokit as any, owner, repo, ruleName, headSha, logger);
+    if (!target) return;
+
+    logger.info({ prCount: target.prs.length }, "Re-running rule for check_run rerequested");
+    await evaluateOpenPrs(context.octokit as any, owner, repo, target.config, target.prs, logger, [ruleName]);
+  });
+}
+
+/**
+ * Resolve what a rule's check run applies to: the repo config (which must
+ * still define the rule) and the open PRs whose head is the check's commit.
+ * Returns null, after logging why, when there's nothing to re-evaluate.
+ */
+async function findRuleTarget(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  ruleName: string,
+  headSha: string,
+  logger: Logger,
+): Promise<{ config: Config; prs: any[] } | null> {
+  const configResult = await loadConfig(octokit, owner, repo);
+  if (configResult.status !== "loaded") {
+    logger.debug({ status: configResult.status }, "No valid branch-guard config — skipping");
+    return null;
+  }
+  const config = configResult.config;
+
+  if (!config.rules.some((rule) => rule.name === ruleName)) {
+    logger.warn("Check run belongs to a rule that is no longer configured — skipping");
+    return null;
+  }
+
+  const prs = await listOpenPrsForCommit(octokit, owner, repo, headSha);
+  if (prs.length === 0) {
+    logger.info("No open PRs for this commit — nothing to re-evaluate");
+    return null;
+  }
+
+  return { config, prs };
 }
@@ -2,6 +2,7 @@ import type { Probot, Context } from "probot";
 import { loadConfig } from "../services/config.js";
 import { getPrChangedFiles } from "../services/pr-files.js";
 import { evaluateRules, postConfigError } from "../services/evaluate.js";
+import { buildPrContext } from "../services/pr-context.js";
 
 export function registerCheckSuiteHandler(app: Probot): void {
   app.on("check_suite.rerequested", async (context: Context<"check_suite.rerequested">) => {
@@ -72,14 +73,7 @@ export function registerCheckSuiteHandler(app: Probot): void {
           octokit: context.octokit as any,
           owner,
           repo,
-          pr: {
-            number: pr.number,
-            headSha: pr.head.sha,
-            baseBranch: pr.base.ref,
-            baseSha: pr.base.sha,
-            changedFiles,
-            prBody: pr.body ?? undefined,
-          },
+          pr: buildPrContext(pr, changedFiles),
           config: configResult.config,
           logger: prLogger,
         });
@@ -1,13 +1,8 @@
 import type { Probot, Context } from "probot";
 import type { Octokit } from "@octokit/core";
 import type { Logger } from "pino";
-import type { Config } from "../types.js";
 import { loadConfig } from "../services/config.js";
-import { getPrChangedFiles } from "../services/pr-files.js";
-import { evaluateRules } from "../services/evaluate.js";
-
-const PR_BATCH_SIZE = 5;
-const BATCH_DELAY_MS = 500;
+import { listOpenPrs, evaluateOpenPrs } from "../services/open-prs.js";
 
 interface InstallationRepo {
   id: number;
@@ -104,83 +99,3 @@ async function processRepo(
 
   await evaluateOpenPrs(octokit, owner, repoName, configResult.config, openPrs, logger);
 }
-
-async function listOpenPrs(
-  octokit: Octokit,
-  owner: string,
-  repoName: string,
-): Promise<any[]> {
-  const allPrs: any[] = [];
-  let page = 1;
-
-  while (true) {
-    const response = await octokit.request(
-      "GET /repos/{owner}/{repo}/pulls",
-      { owner, repo: repoName, state: "open", per_page: 100, page },
-    );
-
-    const prs = (response.data as any[]) ?? [];
-    allPrs.push(...prs);
-
-    if (prs.length < 100) break;
-    page++;
-  }
-
-  return allPrs;
-}
-
-async function evaluateOpenPrs(
-  octokit: Octokit,
-  owner: string,
-  repoName: string,
-  config: Config,
-  openPrs: any[],
-  logger: Logger,
-): Promise<void> {
-  for (let i = 0; i < openPrs.length; i += PR_BATCH_SIZE) {
-    const batch = openPrs.slice(i, i + PR_BATCH_SIZE);
-
-    await Promise.allSettled(
-      batch.map(async (pr: any) => {
-        const prLogger = logger.child({ pr: pr.number });
-
-        try {
-          const changedFiles = await getPrChangedFiles(
-            octokit,
-            owner,
-            repoName,
-            pr.number,
-            prLogger,
-          );
-
-          await evaluateRules({
-            octokit,
-            owner,
-            repo: repoName,
-            pr: {
-              number: pr.number,
-              headSha: pr.head.sha,
-              baseBranch: pr.base.ref,
-              baseSha: pr.base.sha,
-              changedFiles,
-              prBody: pr.body ?? undefined,
-            },
-            config,
-            logger: prLogger,
-          });
-        } catch (error) {
-          prLogger.error({ error }, "Failed to evaluate PR during installation");
-        }
-      }),
-    );
-
-    // Delay between batches (skip delay after last batch)
-    if (i + PR_BATCH_SIZE < openPrs.length) {
-      await delay(BATCH_DELAY_MS);
-    }
-  }
-}
-
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
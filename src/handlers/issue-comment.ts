@@ -1,19 +1,45 @@
 import type { Probot, Context } from "probot";
+import type { Logger } from "pino";
+import type { Config } from "../types.js";
+import { CHECK_NAME_PREFIX } from "../types.js";
 import { loadConfig } from "../services/config.js";
 import { getPrChangedFiles } from "../services/pr-files.js";
-import { evaluateRules, postConfigError } from "../services/evaluate.js";
+import { evaluateRules, postConfigError, traceRule, type RuleTrace } from "../services/evaluate.js";
+import { buildPrContext } from "../services/pr-context.js";
+import {
+  parseCommands,
+  isCommandOnly,
+  buildHelpReply,
+  buildUnknownCommandReply,
+  buildUnknownRuleReply,
+  buildStatusReply,
+  buildExplainReply,
+  type Command,
+} from "../services/commands.js";
+import { canOverride, applyOverride } from "../services/overrides.js";
+import { listCheckRuns } from "../services/check-runs.js";
+import { matchesBranch } from "../services/file-matcher.js";
+import { isShadowRule } from "../services/shadow.js";
 
-const RECHECK_COMMANDS = ["/recheck", "/branch-guard recheck"];
+type CommentContext = Context<"issue_comment.created">;
+
+interface LoadedPullRequest {
+  pr: any;
+  config: Config;
+}
+
+/** Loads the config and PR once per comment, however many commands it holds. */
+type PullRequestLoader = () => Promise<LoadedPullRequest | null>;
 
 export function registerIssueCommentHandler(app: Probot): void {
-  app.on("issue_comment.created", async (context: Context<"issue_comment.created">) => {
+  app.on("issue_comment.created", async (context: CommentContext) => {
     const { payload } = context;
 
     // Only process comments on pull requests
     if (!payload.issue.pull_request) return;
 
-    const body = payload.comment.body.trim().toLowerCase();
-    if (!RECHECK_COMMANDS.some((cmd) => body === cmd)) return;
+    const commands = parseCommands(payload.comment.body);
+    if (commands.length === 0) return;
 
     const owner = payload.repository.owner.login;
     const repo = payload.repository.name;
@@ -21,79 +47,282 @@ export function registerIssueCommentHandler(app: Probot): void {
 
     const logger = context.log.child({
       event: "issue_comment",
-      action: "recheck",
       owner,
       repo,
       pr: prNumber,
     });
 
-    logger.info("Processing /recheck command");
-
-    // Delete the /recheck comment to keep PR timeline clean
-    const commentId = payload.comment.id;
-    try {
-      await context.octokit.request(
-        "DELETE /repos/{owner}/{repo}/issues/comments/{comment_id}",
-        { owner, repo, comment_id: commentId },
-      );
-      logger.debug({ commentId }, "Deleted /recheck comment");
-    } catch (error) {
-      // Non-fatal: if deletion fails (e.g. permissions), continue with the recheck
-      logger.warn({ error, commentId }, "Failed to delete /recheck comment — continuing");
+    // Delete a bare recheck comment to keep PR timeline clean
+    if (commands[0].type === "recheck" && isCommandOnly(payload.comment.body)) {
+      await deleteComment(context, logger);
     }
 
-    // Load config
-    const configResult = await loadConfig(context.octokit as any, owner, repo);
+    let loading: Promise<LoadedPullRequest | null> | undefined;
+    const load: PullRequestLoader = () => (loading ??= loadPullRequest(context, logger));
 
-    if (configResult.status === "missing") {
-      logger.debug("No branch-guard config found — skipping");
-      return;
+    for (const command of commands) {
+      await runCommand(context, command, load, logger.child({ action: command.type }));
     }
+  });
+}
+
+async function runCommand(
+  context: CommentContext,
+  command: Command,
+  load: PullRequestLoader,
+  logger: Logger,
+): Promise<void> {
+  switch (command.type) {
+    case "recheck":
+      return handleRecheck(context, command.ruleName, load, logger);
+    case "override":
+      return handleOverride(context, command.ruleName, command.reason, load, logger);
+    case "status":
+      return handleStatus(context, load, logger);
+    case "explain":
+      return handleExplain(context, command.ruleName, load, logger);
+    case "help":
+      return reply(context, buildHelpReply());
+    case "unknown":
+      logger.info({ command: command.name }, "Unknown command");
+      return reply(context, buildUnknownCommandReply(command.name));
+  }
+}
 
-    // Fetch PR details to get head/base SHAs
-    const prResponse = await context.octokit.request(
-      "GET /repos/{owner}/{repo}/pulls/{pull_number}",
-      { owner, repo, pull_number: prNumber },
+async function deleteComment(context: CommentContext, logger: Logger): Promise<void> {
+  const { payload } = context;
+  const commentId = payload.comment.id;
+
+  try {
+    await context.octokit.request(
+      "DELETE /repos/{owner}/{repo}/issues/comments/{comment_id}",
+      { owner: payload.repository.owner.login, repo: payload.repository.name, comment_id: commentId },
     );
-    const pr = prResponse.data as any;
-
-    if (configResult.status === "invalid") {
-      await postConfigError(
-        context.octokit as any,
-        owner,
-        repo,
-        pr.head.sha,
-        configResult.errors,
-      );
-      return;
+    logger.debug({ commentId }, "Deleted /recheck comment");
+  } catch (error) {
+    // Non-fatal: if deletion fails (e.g. permissions), continue with the recheck
+    logger.warn({ error, commentId }, "Failed to delete /recheck comment — continuing");
+  }
+}
+
+async function handleRecheck(
+  context: CommentContext,
+  ruleName: string | undefined,
+  load: PullRequestLoader,
+  logger: Logger,
+): Promise<void> {
+  logger.info({ rule: ruleName }, "Processing /recheck command");
+
+  const loaded = await load();
+  if (!loaded) return;
+  const { pr, config } = loaded;
+
+  if (ruleName && !config.rules.some((rule) => rule.name === ruleName)) {
+    await reply(context, buildUnknownRuleReply(ruleName, config.rules));
+    return;
+  }
+
+  await evaluatePullRequest(context, pr, config, logger, ruleName ? [ruleName] : undefined);
+
+  logger.info("Recheck complete");
+}
+
+/** Reply with the latest check result of every configured rule. */
+async function handleStatus(
+  context: CommentContext,
+  load: PullRequestLoader,
+  logger: Logger,
+): Promise<void> {
+  const loaded = await load();
+  if (!loaded) return;
+  const { pr, config } = loaded;
+
+  const skipped = new Map<string, string>();
+  for (const rule of config.rules) {
+    if (!matchesBranch(pr.base.ref, rule.on.branches)) {
+      skipped.set(rule.name, `Doesn't apply to base branch \`${pr.base.ref}\``);
+    } else if (isShadowRule(rule, config)) {
+      skipped.set(rule.name, "Shadow mode — results are only logged");
     }
+  }
+
+  const checkRuns = await listCheckRuns(
+    context.octokit as any,
+    context.payload.repository.owner.login,
+    context.payload.repository.name,
+    pr.head.sha,
+    `${CHECK_NAME_PREFIX}/`,
+  );
+
+  logger.debug({ checkRuns: checkRuns.length }, "Replying with rule status");
+  await reply(context, buildStatusReply(config.rules, checkRuns, skipped));
+}
+
+/** Reply with a trace of how each rule (or the named rule) was evaluated. */
+async function handleExplain(
+  context: CommentContext,
+  ruleName: string | undefined,
+  load: PullRequestLoader,
+  logger: Logger,
+): Promise<void> {
+  const loaded = await load();
+  if (!loaded) return;
+  const { pr, config } = loaded;
+
+  const rules = ruleName ? config.rules.filter((r) => r.name === ruleName) : config.rules;
+  if (ruleName && rules.length === 0) {
+    await reply(context, buildUnknownRuleReply(ruleName, config.rules));
+    return;
+  }
+
+  const owner = context.payload.repository.owner.login;
+  const repo = context.payload.repository.name;
+  const changedFiles = await getPrChangedFiles(context.octokit as any, owner, repo, pr.number, logger);
+  const params = { octokit: context.octokit as any, owner, repo, pr: buildPrContext(pr, changedFiles), logger };
+
+  const traces: RuleTrace[] = [];
+  for (const rule of rules) {
+    traces.push(await traceRule(params, rule, config));
+  }
+
+  logger.debug({ rules: traces.length }, "Replying with rule explanation");
+  await reply(context, buildExplainReply(traces));
+}
+
+/**
+ * Handle `/branch-guard override <rule> <reason>`: record an override for the
+ * PR's current head SHA and re-evaluate the rule so its check passes.
+ * The command comment is kept as part of the audit trail.
+ */
+async function handleOverride(
+  context: CommentContext,
+  ruleName: string,
+  reason: string,
+  load: PullRequestLoader,
+  logger: Logger,
+): Promise<void> {
+  const { payload } = context;
+  const owner = payload.repository.owner.login;
+  const repo = payload.repository.name;
+  const author = payload.comment.user.login;
+
+  logger.info({ rule: ruleName, author }, "Processing override command");
+
+  if (!ruleName || !reason) {
+    await reply(context, "Usage: `/branch-guard override <rule> <reason>` — a reason is required.");
+    return;
+  }
+
+  const loaded = await load();
+  if (!loaded) return;
+  const { pr, config } = loaded;
+
+  if (!config.rules.some((rule) => rule.name === ruleName)) {
+    await reply(context, buildUnknownRuleReply(ruleName, config.rules));
+    return;
+  }
+
+  const allowed = await canOverride(context.octokit as any, owner, author, config.overrides, logger);
+  if (!allowed) {
+    logger.warn({ rule: ruleName, author }, "Override rejected — user is not allowed to override rules");
+    await reply(context, `@${author} is not allowed to override BranchGuard rules.`);
+    return;
+  }
+
+  const headSha = pr.head.sha;
+  applyOverride({ owner, repo, headSha, ruleName, author, reason, createdAt: Date.now() });
+
+  await evaluatePullRequest(context, pr, config, logger, [ruleName]);
+
+  try {
+    await context.octokit.request(
+      "POST /repos/{owner}/{repo}/issues/comments/{comment_id}/reactions",
+      { owner, repo, comment_id: payload.comment.id, content: "+1" },
+    );
+  } catch (error) {
+    logger.warn({ error }, "Failed to react to override comment");
+  }
+
+  logger.info({ rule: ruleName, author, headSha }, "Override recorded");
+}
 
-    // Fetch changed files
-    const changedFiles = await getPrChangedFiles(
+/**
+ * Load the config and PR details. Returns null when there's no config, or
+ * when the config is invalid (after posting the config error check).
+ */
+async function loadPullRequest(
+  context: CommentContext,
+  logger: Logger,
+): Promise<LoadedPullRequest | null> {
+  const { payload } = context;
+  const owner = payload.repository.owner.login;
+  const repo = payload.repository.name;
+
+  const configResult = await loadConfig(context.octokit as any, owner, repo);
+
+  if (configResult.status === "missing") {
+    logger.debug("No branch-guard config found — skipping");
+    return null;
+  }
+
+  // Fetch PR details to get head/base SHAs
+  const prResponse = await context.octokit.request(
+    "GET /repos/{owner}/{repo}/pulls/{pull_number}",
+    { owner, repo, pull_number: payload.issue.number },
+  );
+  const pr = prResponse.data as any;
+
+  if (configResult.status === "invalid") {
+    await postConfigError(
       context.octokit as any,
       owner,
       repo,
-      prNumber,
-      logger,
+      pr.head.sha,
+      configResult.errors,
     );
+    return null;
+  }
 
-    // Evaluate rules
-    await evaluateRules({
-      octokit: context.octokit as any,
-      owner,
-      repo,
-      pr: {
-        number: prNumber,
-        headSha: pr.head.sha,
-        baseBranch: pr.base.ref,
-        baseSha: pr.base.sha,
-        changedFiles,
-        prBody: pr.body ?? undefined,
-      },
-      config: configResult.config,
-      logger,
-    });
+  return { pr, config: configResult.config };
+}
+
+async function evaluatePullRequest(
+  context: CommentContext,
+  pr: any,
+  config: Config,
+  logger: Logger,
+  ruleNames?: string[],
+): Promise<void> {
+  const owner = context.payload.repository.owner.login;
+  const repo = context.payload.repository.name;
 
-    logger.info("Recheck complete");
+  const changedFiles = await getPrChangedFiles(
+    context.octokit as any,
+    owner,
+    repo,
+    pr.number,
+    logger,
+  );
+
+  await evaluateRules({
+    octokit: context.octokit as any,
+    owner,
+    repo,
+    pr: buildPrContext(pr, changedFiles),
+    config,
+    logger,
+    ruleNames,
   });
 }
+
+async function reply(context: CommentContext, body: string): Promise<void> {
+  await context.octokit.request(
+    "POST /repos/{owner}/{repo}/issues/{issue_number}/comments",
+    {
+      owner: context.payload.repository.owner.login,
+      repo: context.payload.repository.name,
+      issue_number: context.payload.issue.number,
+      body,
+    },
+  );
+}
@@ -0,0 +1,101 @@
+import type { Probot, Context } from "probot";
+import type { Octokit } from "@octokit/core";
+import type { Logger } from "pino";
+import type { PullRequestContext } from "../types.js";
+import { loadConfig } from "../services/config.js";
+import { getComparedFiles } from "../services/pr-files.js";
+import { evaluateRules, postConfigError } from "../services/evaluate.js";
+
+const BRANCH_REF_PREFIX = "refs/heads/";
+// Queue branches are named `gh-readonly-queue/<base>/pr-<number>-<sha>`
+const QUEUE_PR_NUMBER_REGEX = /\/pr-(\d+)-[^/]+$/;
+
+export function registerMergeGroupHandler(app: Probot): void {
+  app.on("merge_group.checks_requested", async (context: Context<"merge_group.checks_requested">) => {
+    const { payload } = context;
+    const owner = payload.repository.owner.login;
+    const repo = payload.repository.name;
+    const { head_sha: headSha, head_ref: headRef, base_sha: baseSha, base_ref: baseRef } = payload.merge_group;
+    const baseBranch = baseRef.startsWith(BRANCH_REF_PREFIX) ? baseRef.slice(BRANCH_REF_PREFIX.length) : baseRef;
+
+    const logger = context.log.child({
+      event: "merge_group",
+      action: "checks_requested",
+      owner,
+      repo,
+      headSha,
+      baseBranch,
+    });
+
+    logger.info("Evaluating merge queue entry");
+
+    // Load config
+    const configResult = await loadConfig(context.octokit as any, owner, repo);
+
+    if (configResult.status === "missing") {
+      logger.debug("No branch-guard config found — skipping");
+      return;
+    }
+
+    if (configResult.status === "invalid") {
+      await postConfigError(context.octokit as any, owner, repo, headSha, configResult.errors);
+      return;
+    }
+
+    // Files changed between the queue entry's parent commit and its head
+    const files = await getComparedFiles(context.octokit as any, owner, repo, baseSha, headSha, logger);
+
+    // The queued PR's description allowlist and overrides still apply
+    const queuedPr = await getQueuedPullRequest(context.octokit as any, owner, repo, headRef, logger);
+
+    const pr: PullRequestContext = {
+      headSha,
+      baseBranch,
+      baseSha,
+      changedFiles: files.map((file) => file.filename),
+      files,
+      prBody: queuedPr?.body ?? undefined,
+      prHeadSha: queuedPr?.head.sha,
+    };
+
+    // No PR to comment on — check runs are the only output
+    await evaluateRules({
+      octokit: context.octokit as any,
+      owner,
+      repo,
+      pr,
+      config: configResult.config,
+      logger,
+      notify: false,
+    });
+  });
+}
+
+/**
+ * Fetch the PR a queue entry was created for, or null if the queue branch
+ * name doesn't identify one or the PR can't be fetched.
+ */
+async function getQueuedPullRequest(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  headRef: string,
+  logger: Logger,
+): Promise<any | null> {
+  const match = QUEUE_PR_NUMBER_REGEX.exec(headRef);
+  if (!match) {
+    logger.warn({ headRef }, "Couldn't find the PR number in the queue branch name");
+    return null;
+  }
+
+  try {
+    const response = await octokit.request(
+      "GET /repos/{owner}/{repo}/pulls/{pull_number}",
+      { owner, repo, pull_number: Number(match[1]) },
+    );
+    return response.data;
+  } catch (error) {
+    logger.warn({ error, pr: Number(match[1]) }, "Failed to fetch the queued PR — evaluating without it");
+    return null;
+  }
+}
@@ -2,6 +2,8 @@ import type { Probot, Context } from "probot";
 import { loadConfig } from "../services/config.js";
 import { getPrChangedFiles } from "../services/pr-files.js";
 import { evaluateRules, postConfigError } from "../services/evaluate.js";
+import { buildPrContext } from "../services/pr-context.js";
+import type { Rule } from "../types.js";
 
 export function registerPullRequestHandler(app: Probot): void {
   app.on(
@@ -10,16 +12,18 @@ export function registerPullRequestHandler(app: Probot): void {
       "pull_request.synchronize",
       "pull_request.reopened",
       "pull_request.edited",
+      "pull_request.labeled",
+      "pull_request.unlabeled",
       "pull_request_review.submitted",
     ],
     async (context: Context<"pull_request"> | Context<"pull_request_review">) => {
       const { payload } = context;
 
-      // For 'edited' events, only re-evaluate if the base branch or body changed
+      // For 'edited' events, only re-evaluate if the base branch, title or body changed
       if (payload.action === "edited") {
         const changes = (payload as any).changes;
-        if (!changes?.base && !changes?.body) {
-          context.log.debug("PR edited but base branch and body unchanged — skipping");
+        if (!changes?.base && !changes?.body && !changes?.title) {
+          context.log.debug("PR edited but base branch, title and body unchanged — skipping");
           return;
         }
       }
@@ -58,6 +62,15 @@ export function registerPullRequestHandler(app: Probot): void {
         return;
       }
 
+      // Label changes only matter if some rule depends on labels
+      if (
+        (payload.action === "labeled" || payload.action === "unlabeled") &&
+        !configResult.config.rules.some(dependsOnLabels)
+      ) {
+        logger.debug("No rules depend on labels — skipping");
+        return;
+      }
+
       // Fetch changed files
       const changedFiles = await getPrChangedFiles(
         context.octokit as any,
@@ -72,17 +85,18 @@ export function registerPullRequestHandler(app: Probot): void {
         octokit: context.octokit as any,
         owner,
         repo,
-        pr: {
-          number: pr.number,
-          headSha: pr.head.sha,
-          baseBranch: pr.base.ref,
-          baseSha: pr.base.sha,
-          changedFiles,
-          prBody: pr.body ?? undefined,
-        },
+        pr: buildPrContext(pr, changedFiles),
         config: configResult.config,
         logger,
       });
     },
   );
 }
+
+function dependsOnLabels(rule: Rule): boolean {
+  return (
+    rule.on.labels !== undefined ||
+    rule.check_type === "label_required" ||
+    rule.check_type === "label_forbidden"
+  );
+}
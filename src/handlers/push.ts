@@ -1,13 +1,12 @@
 import type { Probot, Context } from "probot";
-import { loadConfig } from "../services/config.js";
-import { getPrChangedFiles } from "../services/pr-files.js";
-import { evaluateRules } from "../services/evaluate.js";
-import { hasMatchingFiles } from "../services/file-matcher.js";
+import type { Octokit } from "@octokit/core";
+import type { Logger } from "pino";
+import { loadConfig, CONFIG_PATH } from "../services/config.js";
+import { hasMatchingFiles, matchesBranch } from "../services/file-matcher.js";
+import { listOpenPrs, evaluateOpenPrs } from "../services/open-prs.js";
+import { isShadowRule } from "../services/shadow.js";
 import type { Rule } from "../types.js";
 
-const PR_BATCH_SIZE = 5;
-const BATCH_DELAY_MS = 500;
-
 export function registerPushHandler(app: Probot): void {
   app.on("push", async (context: Context<"push">) => {
     const { payload } = context;
@@ -36,9 +35,19 @@ export function registerPushHandler(app: Probot): void {
       return;
     }
 
+    // A config change on the default branch may add shadow rules — dry-run them
+    // across every open PR so their impact is reported before they're enforced
+    if (branch === payload.repository.default_branch && extractPushedFiles(payload).includes(CONFIG_PATH)) {
+      try {
+        await dryRunShadowRules(context.octokit as any, owner, repo, payload.after, logger);
+      } catch (error) {
+        logger.error({ error }, "Failed to dry-run shadow rules — continuing");
+      }
+    }
+
     // Filter rules that apply to this branch
     const applicableRules = configResult.config.rules.filter((rule) =>
-      rule.on.branches.includes(branch),
+      matchesBranch(branch, rule.on.branches),
     );
 
     if (applicableRules.length === 0) {
@@ -76,52 +85,37 @@ export function registerPushHandler(app: Probot): void {
 
     logger.info({ prCount: openPrs.length }, "Re-evaluating open PRs");
 
-    // Process PRs in batches to respect rate limits
-    for (let i = 0; i < openPrs.length; i += PR_BATCH_SIZE) {
-      const batch = openPrs.slice(i, i + PR_BATCH_SIZE);
-
-      await Promise.allSettled(
-        batch.map(async (pr: any) => {
-          const prLogger = logger.child({ pr: pr.number });
-
-          try {
-            const changedFiles = await getPrChangedFiles(
-              context.octokit as any,
-              owner,
-              repo,
-              pr.number,
-              prLogger,
-            );
-
-            await evaluateRules({
-              octokit: context.octokit as any,
-              owner,
-              repo,
-              pr: {
-                number: pr.number,
-                headSha: pr.head.sha,
-                baseBranch: pr.base.ref,
-                baseSha: pr.base.sha,
-                changedFiles,
-                prBody: pr.body ?? undefined,
-              },
-              config: configResult.config,
-              logger: prLogger,
-            });
-          } catch (error) {
-            prLogger.error({ error }, "Failed to re-evaluate PR");
-          }
-        }),
-      );
-
-      // Delay between batches (skip delay after last batch)
-      if (i + PR_BATCH_SIZE < openPrs.length) {
-        await delay(BATCH_DELAY_MS);
-      }
-    }
+    await evaluateOpenPrs(context.octokit as any, owner, repo, configResult.config, openPrs, logger);
   });
 }
 
+/**
+ * Evaluate the shadow rules of the config at `ref` against all open PRs.
+ * The config is loaded at the pushed commit; config files are cached per
+ * ref, so this never returns the default branch config from before the push.
+ */
+async function dryRunShadowRules(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  ref: string,
+  logger: Logger,
+): Promise<void> {
+  const configResult = await loadConfig(octokit, owner, repo, ref);
+  if (configResult.status !== "loaded") return;
+
+  const config = configResult.config;
+  const shadowRuleNames = config.rules
+    .filter((rule) => isShadowRule(rule, config))
+    .map((rule) => rule.name);
+
+  if (shadowRuleNames.length === 0) return;
+
+  logger.info({ shadowRules: shadowRuleNames }, "Config changed — dry-running shadow rules on open PRs");
+  const openPrs = await listOpenPrs(octokit, owner, repo);
+  await evaluateOpenPrs(octokit, owner, repo, config, openPrs, logger, shadowRuleNames);
+}
+
 function extractPushedFiles(payload: any): string[] {
   const files = new Set<string>();
   for (const commit of payload.commits ?? []) {
@@ -131,7 +125,3 @@ function extractPushedFiles(payload: any): string[] {
   }
   return Array.from(files);
 }
-
-function delay(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
@@ -1,17 +1,33 @@
 import { Probot } from "probot";
 import type { ApplicationFunctionOptions } from "probot/lib/types.js";
+import type { Logger } from "pino";
 import { registerCheck } from "./checks/index.js";
 import { FilePresenceCheck } from "./checks/file-presence.js";
 import { FilePairCheck } from "./checks/file-pair.js";
 import { ExternalStatusCheck } from "./checks/external-status.js";
 import { BranchAgeCheck } from "./checks/branch-age.js";
 import { ApprovalGateCheck } from "./checks/approval-gate.js";
+import { CommitMessageCheck } from "./checks/commit-message.js";
+import { PrMetadataCheck } from "./checks/pr-metadata.js";
+import { LabelRequiredCheck } from "./checks/label-required.js";
+import { LabelForbiddenCheck } from "./checks/label-forbidden.js";
+import { PrSizeCheck } from "./checks/pr-size.js";
+import { ContentPatternCheck } from "./checks/content-pattern.js";
+import { ImmutableFilesCheck } from "./checks/immutable-files.js";
+import { FileAbsentCheck } from "./checks/file-absent.js";
+import { FileSizeCheck } from "./checks/file-size.js";
+import { MigrationOrderCheck } from "./checks/migration-order.js";
 import { registerPullRequestHandler } from "./handlers/pull-request.js";
 import { registerPushHandler } from "./handlers/push.js";
 import { registerCheckSuiteHandler } from "./handlers/check-suite.js";
 import { registerCheckRunHandler } from "./handlers/check-run.js";
 import { registerIssueCommentHandler } from "./handlers/issue-comment.js";
 import { registerInstallationHandler } from "./handlers/installation.js";
+import { registerMergeGroupHandler } from "./handlers/merge-group.js";
+import { resumePendingEvaluations } from "./services/pending-resolver.js";
+import { startPendingSweeper } from "./services/pending-sweeper.js";
+import { startScheduledEvaluation } from "./services/scheduler.js";
+import { configureStateStores } from "./services/state-store.js";
 
 // Register check types
 registerCheck(new FilePresenceCheck());
@@ -19,8 +35,21 @@ registerCheck(new FilePairCheck());
 registerCheck(new ExternalStatusCheck());
 registerCheck(new BranchAgeCheck());
 registerCheck(new ApprovalGateCheck());
+registerCheck(new CommitMessageCheck());
+registerCheck(new PrMetadataCheck());
+registerCheck(new LabelRequiredCheck());
+registerCheck(new LabelForbiddenCheck());
+registerCheck(new PrSizeCheck());
+registerCheck(new ContentPatternCheck());
+registerCheck(new ImmutableFilesCheck());
+registerCheck(new FileAbsentCheck());
+registerCheck(new FileSizeCheck());
+registerCheck(new MigrationOrderCheck());
 
 export default function app(robot: Probot, { getRouter }: ApplicationFunctionOptions): void {
+  // Fail fast on a bad STATE_STORE before any pending evaluation is touched
+  configureStateStores(robot.log as unknown as Logger);
+
   // Health check endpoint for container orchestration
   if (getRouter) {
     const router = getRouter();
@@ -36,6 +65,18 @@ export default function app(robot: Probot, { getRouter }: ApplicationFunctionOpt
   registerCheckRunHandler(robot);
   registerIssueCommentHandler(robot);
   registerInstallationHandler(robot);
+  registerMergeGroupHandler(robot);
+
+  // Resume external_status evaluations persisted before the last restart
+  resumePendingEvaluations(robot).catch((error) => {
+    robot.log.error({ error }, "Failed to resume pending evaluations");
+  });
+
+  // Time out external_status checks whose required checks never report
+  startPendingSweeper(robot);
+
+  // Re-evaluate time-sensitive rules (e.g. branch_age) without waiting for a push
+  startScheduledEvaluation(robot);
 
   robot.log.info("BranchGuard app loaded");
 }
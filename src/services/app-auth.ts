@@ -0,0 +1,21 @@
+import type { Probot } from "probot";
+import type { Octokit } from "@octokit/core";
+import { withRetry } from "./retry.js";
+
+/**
+ * Get an installation-authenticated Octokit for a repo outside of a webhook
+ * context (e.g. startup or background jobs), by looking up the app's
+ * installation on that repo.
+ */
+export async function getRepoOctokit(
+  app: Probot,
+  owner: string,
+  repo: string,
+): Promise<Octokit> {
+  const appOctokit = await app.auth();
+  const response = await withRetry(() =>
+    appOctokit.request("GET /repos/{owner}/{repo}/installation", { owner, repo }),
+  );
+
+  return (await app.auth((response.data as any).id)) as any;
+}
@@ -1,21 +1,49 @@
 import type { Octokit } from "@octokit/core";
-import type { CreateCheckRunParams, UpdateCheckRunParams } from "../types.js";
+import type {
+  CheckAnnotation,
+  CheckRunAction,
+  CheckRunOutput,
+  CreateCheckRunParams,
+  UpdateCheckRunParams,
+} from "../types.js";
 import { withRetry } from "./retry.js";
 
-interface CheckRun {
+/** GitHub accepts at most 50 annotations per create/update request. */
+const MAX_ANNOTATIONS_PER_REQUEST = 50;
+
+export const RECHECK_ACTION_ID = "recheck";
+export const OVERRIDE_ACTION_ID = "override";
+
+const RECHECK_ACTION: CheckRunAction = {
+  label: "Re-run this rule",
+  description: "Re-evaluate this rule for the PR",
+  identifier: RECHECK_ACTION_ID,
+};
+
+const OVERRIDE_ACTION: CheckRunAction = {
+  label: "Approve override",
+  description: "Pass this rule for this commit",
+  identifier: OVERRIDE_ACTION_ID,
+};
+
+export interface CheckRun {
   id: number;
   name: string;
   status: string;
   conclusion: string | null;
+  output?: { title: string | null };
 }
 
 /**
  * Create a new check run on a commit.
+ * Annotations beyond the first batch are appended with follow-up updates.
  */
 export async function createCheckRun(
   octokit: Octokit,
   params: CreateCheckRunParams,
 ): Promise<number> {
+  const [firstBatch, ...rest] = batchAnnotations(params.output?.annotations);
+
   const response = await withRetry(() =>
     octokit.request("POST /repos/{owner}/{repo}/check-runs", {
       owner: params.owner,
@@ -24,26 +52,30 @@ export async function createCheckRun(
       head_sha: params.headSha,
       status: params.status,
       conclusion: params.status === "completed" ? params.conclusion : undefined,
-      output: params.output
-        ? {
-            title: params.output.title,
-            summary: params.output.summary,
-            text: params.output.text,
-          }
-        : undefined,
+      output: params.output ? toApiOutput(params.output, firstBatch) : undefined,
+      actions: params.actions,
     }),
   );
 
-  return (response.data as any).id;
+  const checkRunId = (response.data as any).id;
+
+  if (params.output) {
+    await appendAnnotations(octokit, params.owner, params.repo, checkRunId, params.output, rest);
+  }
+
+  return checkRunId;
 }
 
 /**
  * Update an existing check run.
+ * Annotations beyond the first batch are appended with follow-up updates.
  */
 export async function updateCheckRun(
   octokit: Octokit,
   params: UpdateCheckRunParams,
 ): Promise<void> {
+  const [firstBatch, ...rest] = batchAnnotations(params.output?.annotations);
+
   await withRetry(() =>
     octokit.request("PATCH /repos/{owner}/{repo}/check-runs/{check_run_id}", {
       owner: params.owner,
@@ -51,15 +83,76 @@ export async function updateCheckRun(
       check_run_id: params.checkRunId,
       status: params.status,
       conclusion: params.status === "completed" ? params.conclusion : undefined,
-      output: params.output
-        ? {
-            title: params.output.title,
-            summary: params.output.summary,
-            text: params.output.text,
-          }
-        : undefined,
+      output: params.output ? toApiOutput(params.output, firstBatch) : undefined,
+      actions: params.actions,
     }),
   );
+
+  if (params.output) {
+    await appendAnnotations(octokit, params.owner, params.repo, params.checkRunId, params.output, rest);
+  }
+}
+
+/**
+ * Buttons for a rule's check run: "Re-run this rule" always, plus
+ * "Approve override" while the rule is failing.
+ */
+export function ruleCheckActions(conclusion?: "success" | "failure" | "neutral"): CheckRunAction[] {
+  return conclusion === "failure" ? [RECHECK_ACTION, OVERRIDE_ACTION] : [RECHECK_ACTION];
+}
+
+/**
+ * GitHub appends the annotations of each update to the existing ones, so
+ * the remaining batches are sent as output-only updates.
+ */
+async function appendAnnotations(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  checkRunId: number,
+  output: CheckRunOutput,
+  batches: CheckAnnotation[][],
+): Promise<void> {
+  for (const batch of batches) {
+    await withRetry(() =>
+      octokit.request("PATCH /repos/{owner}/{repo}/check-runs/{check_run_id}", {
+        owner,
+        repo,
+        check_run_id: checkRunId,
+        output: toApiOutput(output, batch),
+      }),
+    );
+  }
+}
+
+function batchAnnotations(annotations: CheckAnnotation[] | undefined): CheckAnnotation[][] {
+  if (!annotations || annotations.length === 0) return [];
+
+  const batches: CheckAnnotation[][] = [];
+  for (let i = 0; i < annotations.length; i += MAX_ANNOTATIONS_PER_REQUEST) {
+    batches.push(annotations.slice(i, i + MAX_ANNOTATIONS_PER_REQUEST));
+  }
+  return batches;
+}
+
+/**
+ * Convert a CheckRunOutput to the shape the Checks API expects, carrying
+ * only the given batch of annotations.
+ */
+function toApiOutput(output: CheckRunOutput, annotations: CheckAnnotation[] | undefined) {
+  return {
+    title: output.title,
+    summary: output.summary,
+    text: output.text,
+    annotations: annotations?.map((a) => ({
+      path: a.path,
+      start_line: a.startLine,
+      end_line: a.endLine,
+      annotation_level: a.level,
+      message: a.message,
+      title: a.title,
+    })),
+  };
 }
 
 /**
@@ -91,3 +184,35 @@ export async function findCheckRun(
 
   return runs.length > 0 ? runs[0] : null;
 }
+
+/**
+ * List every check run on a commit whose name starts with `namePrefix`.
+ * Handles pagination automatically.
+ */
+export async function listCheckRuns(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  headSha: string,
+  namePrefix: string,
+): Promise<CheckRun[]> {
+  const runs: CheckRun[] = [];
+  let page = 1;
+
+  while (true) {
+    const response = await withRetry(() =>
+      octokit.request(
+        "GET /repos/{owner}/{repo}/commits/{ref}/check-runs",
+        { owner, repo, ref: headSha, per_page: 100, page },
+      ),
+    );
+
+    const pageRuns = ((response.data as any).check_runs ?? []) as CheckRun[];
+    runs.push(...pageRuns.filter((run) => run.name.startsWith(namePrefix)));
+
+    if (pageRuns.length < 100) break;
+    page++;
+  }
+
+  return runs;
+}
@@ -0,0 +1,211 @@
+import type { Rule } from "../types.js";
+import { checkRunName } from "../types.js";
+import type { CheckRun } from "./check-runs.js";
+import type { FileMatchTrace, RuleTrace } from "./evaluate.js";
+
+/** A BranchGuard command parsed from a PR comment. */
+export type Command =
+  | { type: "recheck"; ruleName?: string }
+  | { type: "override"; ruleName: string; reason: string }
+  | { type: "help" }
+  | { type: "status" }
+  | { type: "explain"; ruleName?: string }
+  | { type: "unknown"; name: string };
+
+const COMMAND_REGEX = /^\/branch-guard(?:\s+(\S+))?(?:\s+(\S+))?(?:\s+(.*))?$/i;
+
+/** Changed files listed per rule by `explain` before truncating. */
+const MAX_EXPLAINED_FILES = 20;
+
+const COMMAND_HELP = [
+  ["/branch-guard recheck", "Re-evaluate every rule (also `/recheck`)"],
+  ["/branch-guard recheck <rule>", "Re-evaluate a single rule"],
+  ["/branch-guard status", "Show the current result of every rule"],
+  ["/branch-guard explain [rule]", "Explain why each rule (or one rule) ran or was skipped, and what it found"],
+  ["/branch-guard override <rule> <reason>", "Pass a failing rule for the current commit (authorized users only)"],
+  ["/branch-guard help", "Show this list"],
+];
+
+/**
+ * Parse every command in a PR comment. A command must sit on its own line,
+ * so commands can be mixed into a longer comment. Returns an empty list if
+ * the comment has no commands.
+ */
+export function parseCommands(body: string): Command[] {
+  const commands: Command[] = [];
+
+  for (const rawLine of body.split(/\r?\n/)) {
+    const command = parseLine(rawLine.trim());
+    if (command) commands.push(command);
+  }
+
+  return commands;
+}
+
+function parseLine(line: string): Command | null {
+  if (line.toLowerCase() === "/recheck") {
+    return { type: "recheck" };
+  }
+
+  const match = COMMAND_REGEX.exec(line);
+  if (!match) return null;
+
+  const name = (match[1] ?? "help").toLowerCase();
+  // Rule names are always lowercase
+  const ruleName = match[2]?.toLowerCase();
+  const rest = (match[3] ?? "").trim();
+
+  switch (name) {
+    case "recheck":
+      return { type: "recheck", ruleName };
+    case "override":
+      return { type: "override", ruleName: ruleName ?? "", reason: rest };
+    case "help":
+      return { type: "help" };
+    case "status":
+      return { type: "status" };
+    case "explain":
+      return { type: "explain", ruleName };
+    default:
+      return { type: "unknown", name };
+  }
+}
+
+/** Whether a comment consists of nothing but a single command. */
+export function isCommandOnly(body: string): boolean {
+  const lines = body.split(/\r?\n/).map((line) => line.trim()).filter((line) => line.length > 0);
+  return lines.length === 1 && parseLine(lines[0]) !== null;
+}
+
+// --- Reply builders ---
+
+export function buildHelpReply(): string {
+  return [
+    "**BranchGuard commands** — post a command on its own line in a PR comment:",
+    "",
+    "| Command | Description |",
+    "|---------|-------------|",
+    ...COMMAND_HELP.map(([command, description]) => `| \`${command}\` | ${description} |`),
+  ].join("\n");
+}
+
+export function buildUnknownCommandReply(name: string): string {
+  return [`Unknown command \`/branch-guard ${name}\`.`, "", buildHelpReply()].join("\n");
+}
+
+export function buildUnknownRuleReply(ruleName: string, rules: Rule[]): string {
+  const names = rules.map((r) => `\`${r.name}\``).join(", ");
+  return `No rule named \`${ruleName}\` is configured. Configured rules: ${names}.`;
+}
+
+/**
+ * Summarize the current check run of every rule. `skipped` maps rule names
+ * to a note for rules that aren't expected to post a check (e.g. other base
+ * branch or shadow mode).
+ */
+export function buildStatusReply(
+  rules: Rule[],
+  checkRuns: CheckRun[],
+  skipped: Map<string, string>,
+): string {
+  const rows = rules.map((rule) => {
+    const skipNote = skipped.get(rule.name);
+    if (skipNote) return `| \`${rule.name}\` | ➖ Skipped | ${skipNote} |`;
+
+    const run = checkRuns.find((r) => r.name === checkRunName(rule.name));
+    return `| \`${rule.name}\` | ${describeCheckRun(run)} | ${run?.output?.title ?? ""} |`;
+  });
+
+  return [
+    "**BranchGuard status** for this PR's latest commit:",
+    "",
+    "| Rule | Result | Details |",
+    "|------|--------|---------|",
+    ...rows,
+  ].join("\n");
+}
+
+/**
+ * Explain how each rule was evaluated: the branch and label conditions,
+ * which globs hit which changed files, and what the check type concluded.
+ */
+export function buildExplainReply(traces: RuleTrace[]): string {
+  const sections = traces.map((trace) => {
+    const { rule, branch, labels, files } = trace;
+    const included = files.filter((f) => !f.exclude && !f.excludedStatus);
+    const lines = [
+      `#### \`${rule.name}\` — ${describeVerdict(trace)}${trace.shadow ? " (shadow mode)" : ""}`,
+      "",
+      rule.description,
+      "",
+      `- **Base branch:** \`${branch.name}\` ${branch.matched ? "matches" : "doesn't match"} ${formatList(rule.on.branches)}`,
+    ];
+
+    if (labels) {
+      const present = labels.present.length > 0 ? formatList(labels.present) : "none";
+      lines.push(`- **Labels:** ${labels.matched ? "conditions met" : "conditions not met"} (PR labels: ${present})`);
+    }
+
+    lines.push(
+      `- **Files:** ${included.length} included, ${files.length - included.length} excluded, ${trace.unmatchedFiles} not matched by ${formatList(rule.on.paths.include)}`,
+      ...files.slice(0, MAX_EXPLAINED_FILES).map(describeFileMatch),
+    );
+    if (files.length > MAX_EXPLAINED_FILES) {
+      lines.push(`  - …and ${files.length - MAX_EXPLAINED_FILES} more`);
+    }
+
+    lines.push(`- **Check (\`${rule.check_type}\`):** ${describeCheck(trace)}`);
+
+    return lines.join("\n");
+  });
+
+  return ["**BranchGuard explain** for this PR's latest commit:", "", ...sections].join("\n\n");
+}
+
+function describeFileMatch(match: FileMatchTrace): string {
+  const path = match.previousPath
+    ? `\`${match.path}\` (renamed from \`${match.previousPath}\`)`
+    : `\`${match.path}\``;
+  const reasons = [`included by \`${match.include}\``];
+  if (match.exclude) reasons.push(`excluded by \`${match.exclude}\``);
+  if (match.excludedStatus) reasons.push(`excluded by status \`${match.excludedStatus}\``);
+
+  return `  - ${path} — ${reasons.join(", ")}`;
+}
+
+function describeVerdict(trace: RuleTrace): string {
+  if (trace.skipped) return "➖ Skipped";
+  if (trace.override) return "✅ Overridden";
+  if (trace.error) return "💥 Error";
+  if (trace.pending) return "⏳ Pending";
+
+  switch (trace.result?.conclusion) {
+    case "success": return "✅ Passes";
+    case "failure": return "❌ Fails";
+    default: return "⚠️ Neutral";
+  }
+}
+
+function describeCheck(trace: RuleTrace): string {
+  if (trace.skipped) return `not run — ${trace.skipped}`;
+  if (trace.override) return `not run — overridden by @${trace.override.author}: ${trace.override.reason}`;
+  if (trace.error) return `errored — ${trace.error}`;
+  if (trace.pending) return `pending — ${trace.result!.title}`;
+  return `${trace.result!.conclusion} — ${trace.result!.title}`;
+}
+
+function describeCheckRun(run: CheckRun | undefined): string {
+  if (!run) return "⏳ Not reported";
+  if (run.status !== "completed") return "⏳ In progress";
+
+  switch (run.conclusion) {
+    case "success": return "✅ Passed";
+    case "failure": return "❌ Failed";
+    case "neutral": return "⚠️ Neutral";
+    default: return run.conclusion ?? "Unknown";
+  }
+}
+
+function formatList(values: string[]): string {
+  return values.map((v) => `\`${v}\``).join(", ");
+}
@@ -1,15 +1,38 @@
 import * as yaml from "js-yaml";
-import { ConfigSchema, type Config, type ConfigLoadResult } from "../types.js";
+import { ConfigSchema, type ConfigLoadResult } from "../types.js";
 import { TtlCache } from "./cache.js";
 import { withRetry } from "./retry.js";
 import type { Octokit } from "@octokit/core";
 
-const CONFIG_PATH = ".github/branch-guard.yml";
-const configCache = new TtlCache<ConfigLoadResult>(60);
+export const CONFIG_PATH = ".github/branch-guard.yml";
+const MAX_EXTENDS_DEPTH = 5;
+
+/** `owner/repo` or `owner/repo:path/to/config.yml` */
+const EXTENDS_REGEX = /^([A-Za-z0-9_.-]+)\/([A-Za-z0-9_.-]+)(?::(.+))?$/;
+
+type RawConfig = Record<string, unknown>;
+
+type RawConfigResult =
+  | { status: "loaded"; data: RawConfig }
+  | { status: "missing" }
+  | { status: "invalid"; errors: string[] };
+
+interface ConfigSource {
+  owner: string;
+  repo: string;
+  path: string;
+  ref?: string;
+}
+
+const rawConfigCache = new TtlCache<RawConfigResult>(60);
 
 /**
- * Load and validate .github/branch-guard.yml from the repo's default branch.
- * Results are cached for 60s keyed on owner/repo + ref SHA.
+ * Load and validate .github/branch-guard.yml from the repo's default branch,
+ * following `extends` to shared configs in other repos.
+ *
+ * Each config file is cached for 60s keyed on its repo, path and ref. The
+ * merge itself is cheap, so it is redone on every call from the cached
+ * files and always reflects the ref that was asked for.
  */
 export async function loadConfig(
   octokit: Octokit,
@@ -17,25 +40,65 @@ export async function loadConfig(
   repo: string,
   ref?: string,
 ): Promise<ConfigLoadResult> {
-  const cacheKey = `${owner}/${repo}:${ref ?? "default"}`;
-  const cached = configCache.get(cacheKey);
+  const layers: RawConfig[] = [];
+  const chain: string[] = [];
+  let source: ConfigSource | null = { owner, repo, path: CONFIG_PATH, ref };
+
+  while (source) {
+    const id = sourceId(source);
+
+    if (chain.includes(id)) {
+      return invalid(`extends: circular reference ${[...chain, id].join(" → ")}`);
+    }
+    if (chain.length > MAX_EXTENDS_DEPTH) {
+      return invalid(`extends: chain is deeper than ${MAX_EXTENDS_DEPTH} levels`);
+    }
+    chain.push(id);
+
+    const raw = await loadRawConfig(octokit, source, chain.length === 1);
+    if (raw.status === "missing") {
+      return chain.length === 1
+        ? { status: "missing" }
+        : invalid(`extends: config ${id} not found`);
+    }
+    if (raw.status === "invalid") return raw;
+
+    layers.push(raw.data);
+    source = raw.data.extends === undefined
+      ? null
+      : parseExtends(raw.data.extends as string);
+  }
+
+  // Merge from the root of the chain down to the repo's own config
+  const merged = layers.reduceRight<RawConfig>(mergeLayer, {});
+  return validate(merged);
+}
+
+async function loadRawConfig(
+  octokit: Octokit,
+  source: ConfigSource,
+  isRoot: boolean,
+): Promise<RawConfigResult> {
+  const cacheKey = `${sourceId(source)}@${source.ref ?? "default"}`;
+  const cached = rawConfigCache.get(cacheKey);
   if (cached) return cached;
 
-  const result = await fetchAndParse(octokit, owner, repo, ref);
-  configCache.set(cacheKey, result);
+  const result = await fetchAndParse(octokit, source, isRoot);
+  rawConfigCache.set(cacheKey, result);
   return result;
 }
 
 async function fetchAndParse(
   octokit: Octokit,
-  owner: string,
-  repo: string,
-  ref?: string,
-): Promise<ConfigLoadResult> {
+  source: ConfigSource,
+  isRoot: boolean,
+): Promise<RawConfigResult> {
+  const { owner, repo, path, ref } = source;
+  const label = isRoot ? "branch-guard.yml" : sourceId(source);
   let content: string;
 
   try {
-    const params: Record<string, string> = { owner, repo, path: CONFIG_PATH };
+    const params: Record<string, string> = { owner, repo, path };
     if (ref) params.ref = ref;
 
     const response = await withRetry(() => octokit.request("GET /repos/{owner}/{repo}/contents/{path}", params as any));
@@ -57,21 +120,99 @@ async function fetchAndParse(
   try {
     parsed = yaml.load(content);
   } catch {
-    return { status: "invalid", errors: ["Invalid YAML syntax in branch-guard.yml"] };
+    return invalid(`Invalid YAML syntax in ${label}`);
+  }
+
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    // Let the schema produce its usual errors for the repo's own config
+    const errors = isRoot
+      ? schemaErrors(parsed)
+      : [`${label}: expected a mapping at the top level`];
+    return { status: "invalid", errors };
+  }
+
+  const data = parsed as RawConfig;
+
+  if (data.extends !== undefined) {
+    if (typeof data.extends !== "string" || !parseExtends(data.extends)) {
+      return invalid(`extends: expected "owner/repo" or "owner/repo:path" in ${label}`);
+    }
   }
 
+  if (data.disabled_rules !== undefined) {
+    const valid = Array.isArray(data.disabled_rules) &&
+      data.disabled_rules.every((name) => typeof name === "string");
+    if (!valid) {
+      return invalid(`disabled_rules: expected a list of rule names in ${label}`);
+    }
+  }
+
+  return { status: "loaded", data };
+}
+
+/**
+ * Apply a config layer on top of the config it extends:
+ * - `disabled_rules` drops inherited rules by name
+ * - rules with the same name replace the inherited rule in place
+ * - new rules are appended after the inherited ones
+ * - other top-level keys replace the inherited value
+ */
+function mergeLayer(base: RawConfig, layer: RawConfig): RawConfig {
+  const { extends: _extends, disabled_rules, rules, ...rest } = layer;
+
+  const disabled = new Set((disabled_rules as string[] | undefined) ?? []);
+  const inherited = Array.isArray(base.rules) ? base.rules : [];
+  const merged = inherited.filter((rule) => !disabled.has(rule?.name));
+
+  for (const rule of Array.isArray(rules) ? rules : []) {
+    const index = merged.findIndex((r) => r?.name === rule?.name);
+    if (index >= 0) {
+      merged[index] = rule;
+    } else {
+      merged.push(rule);
+    }
+  }
+
+  // A non-list `rules` is kept as-is so schema validation reports it
+  const mergedRules = rules !== undefined && !Array.isArray(rules) ? rules : merged;
+
+  return { ...base, ...rest, rules: mergedRules };
+}
+
+function validate(parsed: unknown): ConfigLoadResult {
   const validation = ConfigSchema.safeParse(parsed);
   if (!validation.success) {
-    const errors = validation.error.issues.map(
-      (issue) => `${issue.path.join(".")}: ${issue.message}`,
-    );
-    return { status: "invalid", errors };
+    return { status: "invalid", errors: formatIssues(validation.error.issues) };
   }
 
   return { status: "loaded", config: validation.data };
 }
 
+function schemaErrors(parsed: unknown): string[] {
+  const validation = ConfigSchema.safeParse(parsed);
+  return validation.success ? [] : formatIssues(validation.error.issues);
+}
+
+function formatIssues(issues: Array<{ path: PropertyKey[]; message: string }>): string[] {
+  return issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`);
+}
+
+function parseExtends(value: string): ConfigSource | null {
+  const match = EXTENDS_REGEX.exec(value.trim());
+  if (!match) return null;
+
+  return { owner: match[1], repo: match[2], path: match[3] ?? CONFIG_PATH };
+}
+
+function sourceId(source: ConfigSource): string {
+  return `${source.owner}/${source.repo}:${source.path}`;
+}
+
+function invalid(error: string): { status: "invalid"; errors: string[] } {
+  return { status: "invalid", errors: [error] };
+}
+
 /** Clear the config cache (useful for testing). */
 export function clearConfigCache(): void {
-  configCache.clear();
+  rawConfigCache.clear();
 }
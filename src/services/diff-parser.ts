@@ -0,0 +1,34 @@
+const HUNK_HEADER_REGEX = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+export interface AddedLine {
+  /** 1-based line number in the new version of the file */
+  line: number;
+  content: string;
+}
+
+/**
+ * Extract the added lines from a unified diff patch, as returned in the
+ * `patch` field of the pull request files API.
+ */
+export function getAddedLines(patch: string): AddedLine[] {
+  const added: AddedLine[] = [];
+  let line = 0;
+
+  for (const raw of patch.split("\n")) {
+    const header = HUNK_HEADER_REGEX.exec(raw);
+    if (header) {
+      line = parseInt(header[1], 10);
+      continue;
+    }
+
+    if (raw.startsWith("+")) {
+      added.push({ line, content: raw.slice(1) });
+      line++;
+    } else if (raw.startsWith(" ")) {
+      line++;
+    }
+    // "-" lines don't exist in the new file; "\ No newline at end of file" is metadata
+  }
+
+  return added;
+}
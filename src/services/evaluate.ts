@@ -1,12 +1,25 @@
 import type { Octokit } from "@octokit/core";
 import type { Logger } from "pino";
-import type { Config, Rule, PullRequestContext, ExternalStatusRule, CheckResult } from "../types.js";
+import type {
+  Config,
+  Rule,
+  PullRequestContext,
+  ExternalStatusRule,
+  CheckResult,
+  CheckRunOutput,
+  ChangedFile,
+  PathStatus,
+} from "../types.js";
 import { checkRunName, CONFIG_CHECK_NAME } from "../types.js";
-import { matchFiles, hasMatchingFiles } from "./file-matcher.js";
+import { changedFileMatcher, matchChangedFiles, matchesBranch, pathStatus } from "./file-matcher.js";
+import { matchesLabelFilter } from "./label-matcher.js";
 import { getCheck } from "../checks/index.js";
-import { createCheckRun, updateCheckRun, findCheckRun } from "./check-runs.js";
+import { createCheckRun, updateCheckRun, findCheckRun, ruleCheckActions } from "./check-runs.js";
 import { getPendingKey, setPendingEvaluation } from "../checks/external-status.js";
-import { postOrUpdateFailureComment, updateCommentToSuccess } from "./pr-comment.js";
+import { postOrUpdateFailureComment, updateCommentToSuccess, mergeFailuresIntoComment, type FailureSummary } from "./pr-comment.js";
+import { applySeverity, commentSeverity } from "./severity.js";
+import { isShadowRule, postShadowSummary, type ShadowOutcome } from "./shadow.js";
+import { getOverride, overrideResult, type RuleOverride } from "./overrides.js";
 
 interface EvaluateParams {
   octokit: Octokit;
@@ -15,23 +28,53 @@ interface EvaluateParams {
   pr: PullRequestContext;
   config: Config;
   logger: Logger;
+  /**
+   * Only evaluate these rules. Rows for other rules in the sticky PR comment
+   * are left untouched instead of being rebuilt from scratch.
+   */
+  ruleNames?: string[];
+  /** Post or update the sticky PR comment (default: true) */
+  notify?: boolean;
+}
+
+export interface EvaluationSummary {
+  /** Outcomes of shadow-mode rules, which weren't posted as check runs */
+  shadow: ShadowOutcome[];
 }
 
 /**
  * Evaluate all applicable rules for a PR and post/update check runs.
  * This is the shared core logic used by pull_request, push, and check_suite handlers.
  */
-export async function evaluateRules(params: EvaluateParams): Promise<void> {
-  const { octokit, owner, repo, pr, config, logger } = params;
+export async function evaluateRules(params: EvaluateParams): Promise<EvaluationSummary> {
+  const { octokit, owner, repo, pr, config, logger, ruleNames, notify = true } = params;
 
-  // Filter rules that apply to this PR's base branch
-  const applicableRules = config.rules.filter((rule) =>
-    rule.on.branches.includes(pr.baseBranch),
+  // Filter rules that apply to this PR's base branch (and the requested subset, if any)
+  const matchingRules = config.rules.filter((rule) =>
+    matchesBranch(pr.baseBranch, rule.on.branches) &&
+    (!ruleNames || ruleNames.includes(rule.name)),
   );
 
-  if (applicableRules.length === 0) {
+  if (matchingRules.length === 0) {
     logger.debug({ baseBranch: pr.baseBranch }, "No rules apply to this base branch");
-    return;
+    return { shadow: [] };
+  }
+
+  const shadowRules = matchingRules.filter((rule) => isShadowRule(rule, config));
+  const applicableRules = matchingRules.filter((rule) => !isShadowRule(rule, config));
+
+  const shadow = await evaluateShadowRules({ octokit, owner, repo, pr, logger }, shadowRules);
+
+  if (shadow.length > 0 && config.shadow?.summary_check) {
+    try {
+      await postShadowSummary(octokit, owner, repo, pr.headSha, shadow);
+    } catch (error) {
+      logger.error({ error }, "Failed to post shadow summary check");
+    }
+  }
+
+  if (applicableRules.length === 0) {
+    return { shadow };
   }
 
   // Evaluate each rule independently — one failure shouldn't block others
@@ -82,16 +125,32 @@ export async function evaluateRules(params: EvaluateParams): Promise<void> {
   // Include error failures in the aggregation
   const allResults = [...evaluatedResults, ...errorFailures];
 
-  const notifiableFailures = allResults
+  // Internal errors always block; rule failures are listed by severity
+  const notifiableFailures: FailureSummary[] = allResults
     .filter((r) => r.result.conclusion === "failure" && r.rule.notify !== false)
-    .map((r) => ({
-      ruleName: r.rule.name,
-      title: r.result.title,
-      summary: r.result.summary,
-    }));
+    .flatMap((r) => {
+      const severity = errorFailures.includes(r) ? "error" : commentSeverity(r.rule.severity);
+      if (severity === null) return [];
+      return [{ ruleName: r.rule.name, title: r.result.title, summary: r.result.summary, severity }];
+    });
+
+  // Merge queue entries have no PR to comment on
+  if (!notify || pr.number === undefined) {
+    return { shadow };
+  }
 
   try {
-    if (notifiableFailures.length > 0) {
+    if (ruleNames) {
+      await mergeFailuresIntoComment(
+        octokit,
+        owner,
+        repo,
+        pr.number,
+        applicableRules.map((r) => r.name),
+        notifiableFailures,
+        logger,
+      );
+    } else if (notifiableFailures.length > 0) {
       await postOrUpdateFailureComment(octokit, owner, repo, pr.number, notifiableFailures, logger);
     } else if (allResults.length > 0) {
       await updateCommentToSuccess(octokit, owner, repo, pr.number, logger);
@@ -99,6 +158,42 @@ export async function evaluateRules(params: EvaluateParams): Promise<void> {
   } catch (commentError) {
     logger.error({ error: commentError }, "Failed to post/update PR comment notification");
   }
+
+  return { shadow };
+}
+
+/** A changed file and the glob (or status) that included or excluded it. */
+export interface FileMatchTrace {
+  path: string;
+  /** Path before a rename */
+  previousPath?: string;
+  include: string;
+  exclude?: string;
+  /** Set when the file's status isn't one of `on.paths.statuses` */
+  excludedStatus?: PathStatus;
+}
+
+/**
+ * Step-by-step record of how a rule is evaluated for a PR, as reported by
+ * `/branch-guard explain`.
+ */
+export interface RuleTrace {
+  rule: Rule;
+  branch: { name: string; matched: boolean };
+  /** Present when the rule has `on.labels` conditions */
+  labels?: { present: string[]; matched: boolean };
+  /** Files included by `on.paths` — those with `exclude` or `excludedStatus` set were then excluded */
+  files: FileMatchTrace[];
+  /** Number of changed files not included by any `on.paths.include` glob */
+  unmatchedFiles: number;
+  shadow: boolean;
+  /** Why the check type wasn't run, when it wasn't */
+  skipped?: string;
+  override?: RuleOverride;
+  /** What the check type evaluated, with severity applied */
+  result?: CheckResult;
+  pending?: boolean;
+  error?: string;
 }
 
 interface SingleRuleParams {
@@ -120,43 +215,25 @@ async function evaluateSingleRule(params: SingleRuleParams): Promise<RuleEvalRes
   const name = checkRunName(rule.name);
   const ruleLogger = logger.child({ rule: rule.name, checkType: rule.check_type });
 
-  const { include, exclude } = rule.on.paths;
-  const filesMatch = hasMatchingFiles(pr.changedFiles, include, exclude);
-
-  if (!filesMatch) {
-    // No matching files — auto-pass if check already exists, otherwise skip
-    const existing = await findCheckRun(octokit, owner, repo, pr.headSha, name);
-    if (existing) {
-      ruleLogger.debug("No matching files — auto-passing existing check");
-      await updateCheckRun(octokit, {
-        owner,
-        repo,
-        checkRunId: existing.id,
-        status: "completed",
-        conclusion: "success",
-        output: {
-          title: "Rule not applicable",
-          summary: "No matching files changed in this PR.",
-        },
-      });
-    } else {
-      ruleLogger.debug("No matching files — creating passing check");
-      await createCheckRun(octokit, {
-        owner,
-        repo,
-        headSha: pr.headSha,
-        name,
-        status: "completed",
-        conclusion: "success",
-        output: {
-          title: "Rule not applicable",
-          summary: "No matching files changed in this PR.",
-        },
-      });
-    }
+  const notApplicable = notApplicableReason(rule, pr);
+  if (notApplicable) {
+    ruleLogger.debug({ reason: notApplicable }, "Rule not applicable — passing check");
+    await postNotApplicable(octokit, owner, repo, pr.headSha, name, notApplicable);
     return null;
   }
 
+  // An override recorded for the PR's head SHA passes the rule without running it
+  const override = getOverride(owner, repo, pr.prHeadSha ?? pr.headSha, rule.name);
+  if (override) {
+    ruleLogger.info({ author: override.author }, "Rule overridden — passing check");
+    const result = overrideResult(override);
+    await postCompleted(octokit, owner, repo, pr.headSha, name, "success", {
+      title: result.title,
+      summary: result.summary,
+    });
+    return { rule, result };
+  }
+
   // Files match — create/update check as in_progress
   ruleLogger.info("Evaluating rule");
 
@@ -178,29 +255,15 @@ async function evaluateSingleRule(params: SingleRuleParams): Promise<RuleEvalRes
       headSha: pr.headSha,
       name,
       status: "in_progress",
+      actions: ruleCheckActions(),
     });
   }
 
-  // Execute the check type logic
-  const checkType = getCheck(rule.check_type);
-  const result = await checkType.execute({
-    octokit,
-    owner,
-    repo,
-    rule,
-    pr,
-    logger: ruleLogger,
-  });
-
-  // Apply custom failure message overrides if configured
-  if (result.conclusion === "failure" && rule.failure_message) {
-    if (rule.failure_message.title) result.title = rule.failure_message.title;
-    if (rule.failure_message.summary) result.summary = rule.failure_message.summary;
-  }
+  const result = await executeRule({ ...params, logger: ruleLogger }, false);
 
   // For external_status checks that are still waiting on other checks,
   // leave the check run as in_progress and store pending state
-  if (rule.check_type === "external_status" && result.title.startsWith("Waiting for:")) {
+  if (isWaiting(rule, result)) {
     const esRule = rule as ExternalStatusRule;
     const key = getPendingKey(owner, repo, pr.headSha, rule.name);
 
@@ -213,6 +276,10 @@ async function evaluateSingleRule(params: SingleRuleParams): Promise<RuleEvalRes
       checkRunId,
       createdAt: Date.now(),
       timeoutMinutes: esRule.config.timeout_minutes,
+      timeoutConclusion: esRule.config.timeout_conclusion,
+      prNumber: pr.number,
+      notify: rule.notify,
+      severity: rule.severity,
     });
 
     // Update check run with pending info but keep in_progress
@@ -232,25 +299,251 @@ async function evaluateSingleRule(params: SingleRuleParams): Promise<RuleEvalRes
     return null;
   }
 
-  // Update check run with result
+  // Update check run with result — warning/info failures are posted as neutral,
+  // but the returned result keeps the failure so it's listed in the PR comment
+  const posted = applySeverity(result, rule.severity);
   await updateCheckRun(octokit, {
     owner,
     repo,
     checkRunId,
     status: "completed",
-    conclusion: result.conclusion,
+    conclusion: posted.conclusion,
+    actions: ruleCheckActions(posted.conclusion),
     output: {
-      title: result.title,
-      summary: result.summary,
-      text: result.details,
+      title: posted.title,
+      summary: posted.summary,
+      text: posted.details,
+      annotations: posted.annotations,
     },
   });
 
-  ruleLogger.info({ conclusion: result.conclusion }, "Rule evaluation complete");
+  ruleLogger.info({ conclusion: posted.conclusion }, "Rule evaluation complete");
 
   return { rule, result };
 }
 
+/**
+ * Execute a rule's check type and apply its custom failure message.
+ * Dry runs must not cause side effects such as requesting reviewers.
+ */
+async function executeRule(params: SingleRuleParams, dryRun: boolean): Promise<CheckResult> {
+  const { octokit, owner, repo, pr, rule, logger } = params;
+
+  const result = await getCheck(rule.check_type).execute({
+    octokit,
+    owner,
+    repo,
+    rule,
+    pr,
+    logger,
+    dryRun,
+  });
+
+  // Apply custom failure message overrides if configured
+  if (result.conclusion === "failure" && rule.failure_message) {
+    if (rule.failure_message.title) result.title = rule.failure_message.title;
+    if (rule.failure_message.summary) result.summary = rule.failure_message.summary;
+  }
+
+  return result;
+}
+
+/** Whether an external_status check is still waiting on other checks. */
+function isWaiting(rule: Rule, result: CheckResult): boolean {
+  return rule.check_type === "external_status" && result.title.startsWith("Waiting for:");
+}
+
+/**
+ * Why a rule doesn't apply to a PR (a PR-only check in the merge queue, unmet
+ * label conditions or no matching changed files), or null if it applies.
+ */
+function notApplicableReason(rule: Rule, pr: PullRequestContext): string | null {
+  if (pr.number === undefined && getCheck(rule.check_type).requiresPullRequest) {
+    return "This check reads pull request data, so it runs on the pull request rather than in the merge queue.";
+  }
+
+  const labels = rule.on.labels;
+  // Queue entries carry no labels, so label conditions were settled on the PR
+  if (labels && pr.number === undefined) {
+    return "This rule has `on.labels` conditions, so it runs on the pull request rather than in the merge queue.";
+  }
+  if (labels && !matchesLabelFilter(pr.labels ?? [], labels.include, labels.exclude)) {
+    return "The PR's labels don't meet this rule's `on.labels` conditions.";
+  }
+
+  if (matchChangedFiles(pr, rule.on.paths).length === 0) {
+    return "No matching files changed in this PR.";
+  }
+
+  return null;
+}
+
+/**
+ * Trace a rule against a PR without posting anything: which conditions
+ * matched, which globs hit which changed files, and what the check type
+ * evaluated in a dry run.
+ */
+export async function traceRule(
+  params: Omit<SingleRuleParams, "rule">,
+  rule: Rule,
+  config: Config,
+): Promise<RuleTrace> {
+  const { owner, repo, pr, logger } = params;
+  const { include, exclude, statuses } = rule.on.paths;
+  const labels = rule.on.labels;
+  const changed: Array<Partial<ChangedFile> & { filename: string }> =
+    pr.files ?? pr.changedFiles.map((filename) => ({ filename }));
+
+  // Same per-path matching as matchChangedFiles, so renames trace the way they run
+  const matchPaths = changedFileMatcher(include, exclude);
+  const files: FileMatchTrace[] = [];
+  for (const file of changed) {
+    const pathMatch = matchPaths(file);
+    if (!pathMatch) continue;
+
+    const match: FileMatchTrace = { path: file.filename, include: pathMatch.include };
+    if (file.previousFilename) match.previousPath = file.previousFilename;
+    if (pathMatch.exclude) match.exclude = pathMatch.exclude;
+
+    if (statuses && file.status && !statuses.includes(pathStatus(file.status))) {
+      match.excludedStatus = pathStatus(file.status);
+    }
+    files.push(match);
+  }
+
+  const trace: RuleTrace = {
+    rule,
+    branch: { name: pr.baseBranch, matched: matchesBranch(pr.baseBranch, rule.on.branches) },
+    labels: labels && {
+      present: pr.labels ?? [],
+      matched: matchesLabelFilter(pr.labels ?? [], labels.include, labels.exclude),
+    },
+    files,
+    unmatchedFiles: pr.changedFiles.length - files.length,
+    shadow: isShadowRule(rule, config),
+  };
+
+  if (!trace.branch.matched) {
+    trace.skipped = "The base branch doesn't match `on.branches`, so no check run is posted.";
+    return trace;
+  }
+
+  const notApplicable = notApplicableReason(rule, pr);
+  if (notApplicable) {
+    trace.skipped = notApplicable;
+    return trace;
+  }
+
+  trace.override = getOverride(owner, repo, pr.prHeadSha ?? pr.headSha, rule.name);
+  if (trace.override) {
+    trace.result = overrideResult(trace.override);
+    return trace;
+  }
+
+  try {
+    const ruleLogger = logger.child({ rule: rule.name, checkType: rule.check_type, explain: true });
+    const result = await executeRule({ ...params, rule, logger: ruleLogger }, true);
+    trace.pending = isWaiting(rule, result);
+    trace.result = applySeverity(result, rule.severity);
+  } catch (error) {
+    trace.error = error instanceof Error ? error.message : String(error);
+  }
+
+  return trace;
+}
+
+/**
+ * Run shadow-mode rules as a dry run: execute the check but only log the
+ * outcome. Nothing is posted to the PR and errors never surface as checks.
+ */
+async function evaluateShadowRules(
+  params: Omit<SingleRuleParams, "rule">,
+  rules: Rule[],
+): Promise<ShadowOutcome[]> {
+  const { octokit, owner, repo, pr, logger } = params;
+  const outcomes: ShadowOutcome[] = [];
+
+  for (const rule of rules) {
+    const ruleLogger = logger.child({ rule: rule.name, checkType: rule.check_type, shadow: true });
+    if (notApplicableReason(rule, pr)) continue;
+
+    let outcome: ShadowOutcome;
+    try {
+      const result = await executeRule({ octokit, owner, repo, pr, rule, logger: ruleLogger }, true);
+      outcome = {
+        ruleName: rule.name,
+        conclusion: isWaiting(rule, result) ? "pending" : applySeverity(result, rule.severity).conclusion,
+        title: result.title,
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      outcome = { ruleName: rule.name, conclusion: "error", title: `Internal error: ${message}` };
+    }
+
+    ruleLogger.info({ conclusion: outcome.conclusion, title: outcome.title }, "Shadow rule evaluated — not posted");
+    outcomes.push(outcome);
+  }
+
+  return outcomes;
+}
+
+/**
+ * Pass a rule that doesn't apply to this PR. Always posting a check keeps
+ * rules usable as required status checks.
+ */
+async function postNotApplicable(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  headSha: string,
+  name: string,
+  summary: string,
+): Promise<void> {
+  await postCompleted(octokit, owner, repo, headSha, name, "success", {
+    title: "Rule not applicable",
+    summary,
+  });
+}
+
+/**
+ * Complete a check run — update the existing check if one was posted
+ * earlier, otherwise create it.
+ */
+async function postCompleted(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  headSha: string,
+  name: string,
+  conclusion: "success" | "failure" | "neutral",
+  output: CheckRunOutput,
+): Promise<void> {
+  const existing = await findCheckRun(octokit, owner, repo, headSha, name);
+
+  if (existing) {
+    await updateCheckRun(octokit, {
+      owner,
+      repo,
+      checkRunId: existing.id,
+      status: "completed",
+      conclusion,
+      actions: ruleCheckActions(conclusion),
+      output,
+    });
+  } else {
+    await createCheckRun(octokit, {
+      owner,
+      repo,
+      headSha,
+      name,
+      status: "completed",
+      conclusion,
+      actions: ruleCheckActions(conclusion),
+      output,
+    });
+  }
+}
+
 async function postErrorCheck(
   octokit: Octokit,
   owner: string,
@@ -271,6 +564,7 @@ async function postErrorCheck(
       checkRunId: existing.id,
       status: "completed",
       conclusion: "failure",
+      actions: ruleCheckActions("failure"),
       output: {
         title: "Internal error",
         summary: `An error occurred while evaluating this rule. Please re-run the check.\n\nError: ${message}`,
@@ -284,6 +578,7 @@ async function postErrorCheck(
       name,
       status: "completed",
       conclusion: "failure",
+      actions: ruleCheckActions("failure"),
       output: {
         title: "Internal error",
         summary: `An error occurred while evaluating this rule. Please re-run the check.\n\nError: ${message}`,
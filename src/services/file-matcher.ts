@@ -1,4 +1,5 @@
 import picomatch from "picomatch";
+import type { ChangedFile, ChangedFileStatus, PathStatus, PathsFilter, PullRequestContext } from "../types.js";
 
 /**
  * Match file paths against include/exclude glob patterns.
@@ -29,3 +30,99 @@ export function hasMatchingFiles(
 
   return files.some((file) => isIncluded(file) && !isExcluded(file));
 }
+
+/**
+ * Match a PR's changed files against a rule's `on.paths`. A renamed file
+ * matches by either its new or its previous path, and with `statuses` set
+ * only files with one of those statuses match. Returns the current paths.
+ *
+ * Without per-file details (`pr.files`) this falls back to plain path
+ * matching and ignores `statuses`.
+ */
+export function matchChangedFiles(pr: PullRequestContext, paths: PathsFilter): string[] {
+  const { include, exclude, statuses } = paths;
+  if (!pr.files) return matchFiles(pr.changedFiles, include, exclude);
+
+  const matchPaths = changedFileMatcher(include, exclude);
+
+  return pr.files
+    .filter((file) => !statuses || statuses.includes(pathStatus(file.status)))
+    .filter((file) => {
+      const match = matchPaths(file);
+      return match !== null && match.exclude === undefined;
+    })
+    .map((file) => file.filename);
+}
+
+/** Which globs a changed file's path matched. */
+export interface PathMatch {
+  path: string;
+  include: string;
+  /** Set when an exclude glob removed the path */
+  exclude?: string;
+}
+
+/**
+ * Build a matcher for a changed file's paths. A renamed file matches by
+ * either path: the first one included and not excluded wins. Otherwise the
+ * matcher returns the first included path with the glob that excluded it,
+ * or null if neither path is included.
+ */
+export function changedFileMatcher(
+  include: string[],
+  exclude: string[],
+): (file: Pick<ChangedFile, "filename" | "previousFilename">) => PathMatch | null {
+  const includers = include.map((pattern) => ({ pattern, isMatch: picomatch(pattern, { dot: true }) }));
+  const excluders = exclude.map((pattern) => ({ pattern, isMatch: picomatch(pattern, { dot: true }) }));
+
+  return (file) => {
+    const paths = file.previousFilename !== undefined ? [file.filename, file.previousFilename] : [file.filename];
+    let excluded: PathMatch | null = null;
+
+    for (const path of paths) {
+      const includedBy = includers.find((glob) => glob.isMatch(path));
+      if (!includedBy) continue;
+
+      const excludedBy = excluders.find((glob) => glob.isMatch(path));
+      if (!excludedBy) return { path, include: includedBy.pattern };
+      excluded ??= { path, include: includedBy.pattern, exclude: excludedBy.pattern };
+    }
+
+    return excluded;
+  };
+}
+
+/**
+ * Map GitHub's file statuses onto the ones `on.paths.statuses` accepts:
+ * copies count as additions, and other changes as modifications.
+ */
+export function pathStatus(status: ChangedFileStatus): PathStatus {
+  switch (status) {
+    case "added":
+    case "copied":
+      return "added";
+    case "removed":
+      return "removed";
+    case "renamed":
+      return "renamed";
+    default:
+      return "modified";
+  }
+}
+
+/**
+ * Check whether a branch name matches a list of `on.branches` patterns.
+ * Patterns are globs (`release/*`); a leading `!` excludes matching branches
+ * (`!release/legacy-*`). A branch must match at least one positive pattern
+ * and no negation — a list of only negations matches every other branch.
+ */
+export function matchesBranch(branch: string, patterns: string[]): boolean {
+  const negations = patterns.filter((p) => p.startsWith("!")).map((p) => p.slice(1));
+  const positives = patterns.filter((p) => !p.startsWith("!"));
+
+  if (negations.length > 0 && picomatch(negations, { dot: true })(branch)) {
+    return false;
+  }
+
+  return positives.length === 0 || picomatch(positives, { dot: true })(branch);
+}
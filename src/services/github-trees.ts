@@ -5,11 +5,23 @@ import { withRetry } from "./retry.js";
 
 interface TreeEntry {
   path: string;
+  mode: string;
   type: string;
   sha: string;
+  size?: number;
 }
 
-const treeCache = new TtlCache<string[]>(60);
+/** A file (blob) in a commit's tree. */
+export interface TreeFile {
+  path: string;
+  /** Git file mode, e.g. `100644` or `120000` for symlinks */
+  mode: string;
+  sha: string;
+  /** Size in bytes */
+  size: number;
+}
+
+const treeCache = new TtlCache<TreeFile[]>(60);
 
 /**
  * Fetch the full file tree for a given SHA and return file paths
@@ -39,6 +51,20 @@ export async function getTree(
   repo: string,
   sha: string,
 ): Promise<string[]> {
+  const files = await getTreeFiles(octokit, owner, repo, sha);
+  return files.map((file) => file.path);
+}
+
+/**
+ * Fetch full recursive tree for a commit SHA, keeping each blob's mode,
+ * SHA and size.
+ */
+export async function getTreeFiles(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  sha: string,
+): Promise<TreeFile[]> {
   const cacheKey = `${owner}/${repo}:${sha}`;
   const cached = treeCache.get(cacheKey);
   if (cached) return cached;
@@ -60,9 +86,9 @@ export async function getTree(
     );
   }
 
-  const files: string[] = (data.tree as TreeEntry[])
+  const files: TreeFile[] = (data.tree as TreeEntry[])
     .filter((entry) => entry.type === "blob")
-    .map((entry) => entry.path);
+    .map((entry) => ({ path: entry.path, mode: entry.mode, sha: entry.sha, size: entry.size ?? 0 }));
 
   treeCache.set(cacheKey, files);
   return files;
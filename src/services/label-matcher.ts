@@ -0,0 +1,21 @@
+/**
+ * Return the subset of `wanted` labels that are present on the PR.
+ * Matching is case-insensitive, as label names are on GitHub.
+ */
+export function findLabels(prLabels: string[], wanted: string[]): string[] {
+  const present = new Set(prLabels.map((l) => l.toLowerCase()));
+  return wanted.filter((label) => present.has(label.toLowerCase()));
+}
+
+/**
+ * Check whether a PR's labels satisfy an `on.labels` filter: at least one
+ * `include` label must be present (when given), and no `exclude` label may be.
+ */
+export function matchesLabelFilter(
+  prLabels: string[],
+  include: string[] | undefined,
+  exclude: string[] = [],
+): boolean {
+  if (include && findLabels(prLabels, include).length === 0) return false;
+  return findLabels(prLabels, exclude).length === 0;
+}
@@ -0,0 +1,133 @@
+import type { Octokit } from "@octokit/core";
+import type { Logger } from "pino";
+import type { Config } from "../types.js";
+import { getPrChangedFiles } from "./pr-files.js";
+import { evaluateRules } from "./evaluate.js";
+import { buildPrContext } from "./pr-context.js";
+import { withRetry } from "./retry.js";
+import { buildShadowReport, type ShadowOutcome, type ShadowReportEntry } from "./shadow.js";
+
+const PR_BATCH_SIZE = 5;
+const BATCH_DELAY_MS = 500;
+
+/**
+ * List all open PRs for a repo (no branch filter).
+ * Handles pagination automatically.
+ */
+export async function listOpenPrs(
+  octokit: Octokit,
+  owner: string,
+  repoName: string,
+): Promise<any[]> {
+  const allPrs: any[] = [];
+  let page = 1;
+
+  while (true) {
+    const response = await octokit.request(
+      "GET /repos/{owner}/{repo}/pulls",
+      { owner, repo: repoName, state: "open", per_page: 100, page },
+    );
+
+    const prs = (response.data as any[]) ?? [];
+    allPrs.push(...prs);
+
+    if (prs.length < 100) break;
+    page++;
+  }
+
+  return allPrs;
+}
+
+/**
+ * List the open PRs whose head is the given commit, e.g. to find the PRs a
+ * check run belongs to. Works for PRs from forks, which check run payloads
+ * don't list.
+ */
+export async function listOpenPrsForCommit(
+  octokit: Octokit,
+  owner: string,
+  repoName: string,
+  sha: string,
+): Promise<any[]> {
+  const response = await withRetry(() =>
+    octokit.request(
+      "GET /repos/{owner}/{repo}/commits/{commit_sha}/pulls",
+      { owner, repo: repoName, commit_sha: sha, per_page: 100 },
+    ),
+  );
+
+  const prs = (response.data as any[]) ?? [];
+  return prs.filter((pr) => pr.state === "open" && pr.head?.sha === sha);
+}
+
+/**
+ * Evaluate rules for a list of open PRs in batches to respect rate limits.
+ * Pass `ruleNames` to re-evaluate only a subset of rules.
+ * Returns (and logs) a report of what shadow-mode rules would have done.
+ */
+export async function evaluateOpenPrs(
+  octokit: Octokit,
+  owner: string,
+  repoName: string,
+  config: Config,
+  openPrs: any[],
+  logger: Logger,
+  ruleNames?: string[],
+): Promise<ShadowReportEntry[]> {
+  const shadowOutcomes = new Map<number, ShadowOutcome[]>();
+
+  for (let i = 0; i < openPrs.length; i += PR_BATCH_SIZE) {
+    const batch = openPrs.slice(i, i + PR_BATCH_SIZE);
+
+    await Promise.allSettled(
+      batch.map(async (pr: any) => {
+        const prLogger = logger.child({ pr: pr.number });
+
+        try {
+          const changedFiles = await getPrChangedFiles(
+            octokit,
+            owner,
+            repoName,
+            pr.number,
+            prLogger,
+          );
+
+          const summary = await evaluateRules({
+            octokit,
+            owner,
+            repo: repoName,
+            pr: buildPrContext(pr, changedFiles),
+            config,
+            logger: prLogger,
+            ruleNames,
+          });
+
+          if (summary.shadow.length > 0) {
+            shadowOutcomes.set(pr.number, summary.shadow);
+          }
+        } catch (error) {
+          prLogger.error({ error }, "Failed to evaluate open PR");
+        }
+      }),
+    );
+
+    // Delay between batches (skip delay after last batch)
+    if (i + PR_BATCH_SIZE < openPrs.length) {
+      await delay(BATCH_DELAY_MS);
+    }
+  }
+
+  const report = buildShadowReport(shadowOutcomes);
+  for (const entry of report) {
+    logger.info(
+      { rule: entry.ruleName, evaluated: entry.evaluated, wouldFail: entry.wouldFail, failingPrs: entry.failingPrs },
+      `Shadow rule would fail ${entry.wouldFail} of ${entry.evaluated} open PR(s)`,
+    );
+  }
+
+  return report;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
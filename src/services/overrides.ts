@@ -0,0 +1,114 @@
+import type { Octokit } from "@octokit/core";
+import type { Logger } from "pino";
+import type { CheckResult, OverridesConfig } from "../types.js";
+import { withRetry } from "./retry.js";
+import { lazyStateStore, type StateStore } from "./state-store.js";
+import { deletePendingEvaluation, getPendingKey } from "../checks/external-status.js";
+
+/** A rule manually passed for one head SHA via `/branch-guard override`. */
+export interface RuleOverride {
+  owner: string;
+  repo: string;
+  headSha: string;
+  ruleName: string;
+  author: string;
+  reason: string;
+  createdAt: number;
+}
+
+export type OverrideStore = StateStore<RuleOverride>;
+
+/**
+ * Store of overrides, keyed by `${owner}/${repo}:${headSha}:${ruleName}`.
+ * Keying on the head SHA means a new push drops the override automatically.
+ * Backend is selected by `STATE_STORE` — use `file` to survive restarts.
+ */
+const overrides: OverrideStore = lazyStateStore<RuleOverride>("overrides");
+
+function getOverrideKey(owner: string, repo: string, headSha: string, ruleName: string): string {
+  return `${owner}/${repo}:${headSha}:${ruleName}`;
+}
+
+export function getOverride(
+  owner: string,
+  repo: string,
+  headSha: string,
+  ruleName: string,
+): RuleOverride | undefined {
+  return overrides.get(getOverrideKey(owner, repo, headSha, ruleName));
+}
+
+export function recordOverride(override: RuleOverride): void {
+  const { owner, repo, headSha, ruleName } = override;
+  overrides.set(getOverrideKey(owner, repo, headSha, ruleName), override);
+}
+
+/**
+ * Record an override from the `/branch-guard override` command or the check
+ * run's button. Drops the rule's pending external_status evaluation, which
+ * would otherwise overwrite the override when it resolves.
+ */
+export function applyOverride(override: RuleOverride): void {
+  const { owner, repo, headSha, ruleName } = override;
+  recordOverride(override);
+  deletePendingEvaluation(getPendingKey(owner, repo, headSha, ruleName));
+}
+
+export function clearOverrides(): void {
+  overrides.clear();
+}
+
+/** The passing result posted in place of an overridden rule's check. */
+export function overrideResult(override: RuleOverride): CheckResult {
+  return {
+    conclusion: "success",
+    title: `Overridden by @${override.author}`,
+    summary: [
+      `This rule was overridden by @${override.author} for commit \`${override.headSha.slice(0, 7)}\`.`,
+      "",
+      `**Reason:** ${override.reason}`,
+      "",
+      "The override is dropped when new commits are pushed.",
+    ].join("\n"),
+  };
+}
+
+/**
+ * Whether a user may override rules: they must be listed in
+ * `overrides.allowed_users` or be an active member of one of
+ * `overrides.allowed_teams`. Without an `overrides` config nobody can.
+ */
+export async function canOverride(
+  octokit: Octokit,
+  org: string,
+  username: string,
+  config: OverridesConfig | undefined,
+  logger: Logger,
+): Promise<boolean> {
+  if (!config) return false;
+
+  const login = username.toLowerCase();
+  if (config.allowed_users.some((user) => user.toLowerCase() === login)) {
+    return true;
+  }
+
+  for (const teamSlug of config.allowed_teams) {
+    try {
+      const response = await withRetry(() =>
+        octokit.request(
+          "GET /orgs/{org}/teams/{team_slug}/memberships/{username}",
+          { org, team_slug: teamSlug, username },
+        ),
+      );
+      if ((response.data as any).state === "active") return true;
+    } catch (error: any) {
+      if (error.status === 404 || error.status === 403) {
+        logger.debug({ team: teamSlug, username, status: error.status }, "User is not a member of override team");
+        continue;
+      }
+      throw error;
+    }
+  }
+
+  return false;
+}
@@ -0,0 +1,72 @@
+const PLACEHOLDER_REGEX = /\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+/** Placeholder that spans any number of directories, including none. */
+const PATH_PLACEHOLDER = "path";
+
+export type TemplateCaptures = Record<string, string>;
+
+/**
+ * List the placeholder names used in a path template, e.g.
+ * `src/{path}/{name}.ts` → ["path", "name"].
+ */
+export function templatePlaceholders(template: string): string[] {
+  return [...template.matchAll(PLACEHOLDER_REGEX)].map((m) => m[1]);
+}
+
+/**
+ * Compile a path template into a matcher. `{path}/` matches zero or more
+ * leading directories; every other `{name}` matches within a single path
+ * segment. Everything else is literal.
+ */
+export function compileTemplate(template: string): (file: string) => TemplateCaptures | null {
+  const names: string[] = [];
+  let source = "";
+  let lastIndex = 0;
+
+  for (const match of template.matchAll(PLACEHOLDER_REGEX)) {
+    const index = match.index!;
+    const name = match[1];
+    source += escapeRegex(template.slice(lastIndex, index));
+    lastIndex = index + match[0].length;
+    names.push(name);
+
+    if (name === PATH_PLACEHOLDER && template[lastIndex] === "/") {
+      source += "(?:(.+)/)?";
+      lastIndex++;
+    } else if (name === PATH_PLACEHOLDER) {
+      source += "(.*)";
+    } else {
+      source += "([^/]+)";
+    }
+  }
+  source += escapeRegex(template.slice(lastIndex));
+
+  const regex = new RegExp(`^${source}$`);
+
+  return (file: string) => {
+    const match = regex.exec(file);
+    if (!match) return null;
+
+    const captures: TemplateCaptures = {};
+    names.forEach((name, i) => {
+      captures[name] = match[i + 1] ?? "";
+    });
+    return captures;
+  };
+}
+
+/**
+ * Fill a path template with captured values. An empty `{path}/` collapses
+ * so `test/{path}/{name}.ts` renders as `test/a.ts` for a root-level file.
+ */
+export function renderTemplate(template: string, captures: TemplateCaptures): string {
+  return template.replace(/\{([A-Za-z_][A-Za-z0-9_]*)\}(\/)?/g, (_, name: string, slash?: string) => {
+    const value = captures[name] ?? "";
+    if (name === PATH_PLACEHOLDER && value === "") return "";
+    return value + (slash ?? "");
+  });
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
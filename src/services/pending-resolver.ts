@@ -0,0 +1,143 @@
+import type { Probot } from "probot";
+import type { Octokit } from "@octokit/core";
+import type { Logger } from "pino";
+import type { CheckResult } from "../types.js";
+import {
+  ExternalStatusCheck,
+  getAllPendingEvaluations,
+  getPendingKey,
+  deletePendingEvaluation,
+  type PendingEvaluation,
+} from "../checks/external-status.js";
+import { updateCheckRun, ruleCheckActions } from "./check-runs.js";
+import { getRepoOctokit } from "./app-auth.js";
+import { applySeverity } from "./severity.js";
+
+const externalStatusCheck = new ExternalStatusCheck();
+
+/**
+ * Re-check a pending external_status evaluation and, if it has resolved,
+ * complete its check run. Returns the result, or null if still pending.
+ * The returned result is the check's own outcome, before severity applies.
+ */
+export async function resolvePendingEvaluation(
+  octokit: Octokit,
+  evaluation: PendingEvaluation,
+  logger: Logger,
+): Promise<CheckResult | null> {
+  const { owner, repo, headSha } = evaluation;
+
+  const result = await externalStatusCheck.resolveIfReady(
+    {
+      octokit,
+      owner,
+      repo,
+      rule: {} as any, // Not needed for resolveIfReady
+      pr: {
+        number: 0, // Not needed for resolveIfReady
+        headSha,
+        baseBranch: "",
+        baseSha: "",
+        changedFiles: [],
+      },
+      logger,
+    },
+    evaluation,
+  );
+
+  if (!result) {
+    logger.debug({ rule: evaluation.ruleName }, "External status check still pending");
+    return null;
+  }
+
+  const posted = applySeverity(result, evaluation.severity);
+  await updateCheckRun(octokit, {
+    owner,
+    repo,
+    checkRunId: evaluation.checkRunId,
+    status: "completed",
+    conclusion: posted.conclusion,
+    output: {
+      title: posted.title,
+      summary: posted.summary,
+      text: posted.details,
+    },
+    actions: ruleCheckActions(posted.conclusion),
+  });
+
+  logger.info(
+    { rule: evaluation.ruleName, conclusion: posted.conclusion },
+    "External status check resolved",
+  );
+
+  return result;
+}
+
+/**
+ * Reload pending evaluations from the store after a restart and re-run
+ * `resolveIfReady` for each, so check runs aren't left `in_progress`
+ * waiting for a webhook that already fired while the app was down.
+ */
+export async function resumePendingEvaluations(app: Probot): Promise<void> {
+  const pending = getAllPendingEvaluations();
+  if (pending.length === 0) return;
+
+  app.log.info({ count: pending.length }, "Resuming pending external_status evaluations");
+
+  await forEachRepoEvaluations(app, pending, async (octokit, evaluations, logger) => {
+    for (const evaluation of evaluations) {
+      try {
+        await resolvePendingEvaluation(octokit, evaluation, logger);
+      } catch (error) {
+        logger.error(
+          { rule: evaluation.ruleName, error },
+          "Failed to resolve pending external status check",
+        );
+      }
+    }
+  });
+}
+
+/**
+ * Group pending evaluations by repo and call `fn` once per repo with an
+ * installation Octokit, so each token is fetched once. If the app is no
+ * longer installed on a repo, every pending evaluation for it is dropped
+ * since none can be resolved; other auth errors are logged and skipped.
+ */
+export async function forEachRepoEvaluations(
+  app: Probot,
+  evaluations: PendingEvaluation[],
+  fn: (octokit: Octokit, evaluations: PendingEvaluation[], logger: Logger) => Promise<void>,
+  bindings: Record<string, unknown> = {},
+): Promise<void> {
+  const byRepo = new Map<string, PendingEvaluation[]>();
+  for (const evaluation of evaluations) {
+    const repoKey = `${evaluation.owner}/${evaluation.repo}`;
+    const group = byRepo.get(repoKey) ?? [];
+    group.push(evaluation);
+    byRepo.set(repoKey, group);
+  }
+
+  for (const group of byRepo.values()) {
+    const { owner, repo } = group[0];
+    const logger = app.log.child({ owner, repo, ...bindings }) as unknown as Logger;
+
+    let octokit: Octokit;
+    try {
+      octokit = await getRepoOctokit(app, owner, repo);
+    } catch (error: any) {
+      if (error.status === 404) {
+        logger.warn("App not installed on repo — dropping pending evaluations");
+        for (const evaluation of getAllPendingEvaluations()) {
+          if (evaluation.owner !== owner || evaluation.repo !== repo) continue;
+          deletePendingEvaluation(getPendingKey(owner, repo, evaluation.headSha, evaluation.ruleName));
+        }
+      } else {
+        logger.error({ error }, "Failed to authenticate for pending evaluations — continuing");
+      }
+      continue;
+    }
+
+    await fn(octokit, group, logger);
+  }
+}
@@ -0,0 +1,92 @@
+import type { Probot } from "probot";
+import type { Octokit } from "@octokit/core";
+import type { Logger } from "pino";
+import { getAllPendingEvaluations, type PendingEvaluation } from "../checks/external-status.js";
+import { forEachRepoEvaluations, resolvePendingEvaluation } from "./pending-resolver.js";
+import { mergeFailuresIntoComment, type FailureSummary } from "./pr-comment.js";
+import { commentSeverity } from "./severity.js";
+
+const DEFAULT_SWEEP_INTERVAL_SECONDS = 60;
+
+/**
+ * Start a background timer that periodically times out stuck
+ * external_status evaluations. Without it, `timeout_minutes` is only
+ * enforced when another check_run webhook happens to arrive for the commit.
+ *
+ * Interval is read from `PENDING_SWEEP_INTERVAL_SECONDS` (default 60).
+ * Returns a function that stops the sweeper.
+ */
+export function startPendingSweeper(
+  app: Probot,
+  env: NodeJS.ProcessEnv = process.env,
+): () => void {
+  const intervalSeconds = Number(env.PENDING_SWEEP_INTERVAL_SECONDS) || DEFAULT_SWEEP_INTERVAL_SECONDS;
+  let running = false;
+
+  const timer = setInterval(() => {
+    // Skip a tick rather than overlap with a slow previous sweep
+    if (running) return;
+    running = true;
+
+    sweepExpiredEvaluations(app)
+      .catch((error) => app.log.error({ error }, "Pending evaluation sweep failed"))
+      .finally(() => {
+        running = false;
+      });
+  }, intervalSeconds * 1000);
+
+  // Don't keep the process alive just for the sweeper
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Time out every pending evaluation whose `timeout_minutes` has elapsed:
+ * complete its check run with the configured conclusion and update the
+ * PR's sticky comment. Exported for testing.
+ */
+export async function sweepExpiredEvaluations(app: Probot, now: number = Date.now()): Promise<void> {
+  const expired = getAllPendingEvaluations().filter(
+    (e) => now - e.createdAt > e.timeoutMinutes * 60 * 1000,
+  );
+
+  if (expired.length === 0) return;
+
+  app.log.info({ count: expired.length }, "Timing out expired external_status evaluations");
+
+  await forEachRepoEvaluations(app, expired, async (octokit, evaluations, logger) => {
+    for (const evaluation of evaluations) {
+      try {
+        await expireEvaluation(octokit, evaluation, logger);
+      } catch (error) {
+        logger.error({ rule: evaluation.ruleName, error }, "Failed to time out pending evaluation");
+      }
+    }
+  }, { job: "pending-sweeper" });
+}
+
+async function expireEvaluation(
+  octokit: Octokit,
+  evaluation: PendingEvaluation,
+  logger: Logger,
+): Promise<void> {
+  const result = await resolvePendingEvaluation(octokit, evaluation, logger);
+  if (!result || !evaluation.prNumber || evaluation.notify === false) return;
+
+  const severity = commentSeverity(evaluation.severity);
+  const failures: FailureSummary[] =
+    result.conclusion === "failure" && severity !== null
+      ? [{ ruleName: evaluation.ruleName, title: result.title, summary: result.summary, severity }]
+      : [];
+
+  await mergeFailuresIntoComment(
+    octokit,
+    evaluation.owner,
+    evaluation.repo,
+    evaluation.prNumber,
+    [evaluation.ruleName],
+    failures,
+    logger,
+  );
+}
@@ -8,6 +8,8 @@ export interface FailureSummary {
   ruleName: string;
   title: string;
   summary: string;
+  /** `warning` rows are listed separately and don't block merging (default: error) */
+  severity?: "error" | "warning";
 }
 
 // --- Comment body builders ---
@@ -18,10 +20,8 @@ function buildFailureBody(
   repo?: string,
   prNumber?: number,
 ): string {
-  const count = failures.length;
-  const rows = failures
-    .map((f) => `| \`${f.ruleName}\` | ❌ Failed | ${f.title} |`)
-    .join("\n");
+  const errors = failures.filter((f) => f.severity !== "warning");
+  const warnings = failures.filter((f) => f.severity === "warning");
 
   // Build a recheck link that pre-fills the comment box when owner/repo/prNumber are available
   let recheckAction = "comment `/recheck` to re-evaluate";
@@ -30,18 +30,67 @@ function buildFailureBody(
     recheckAction = `[🔄 Recheck](${recheckUrl}) — comment \`/recheck\` to re-evaluate`;
   }
 
+  const lines = [COMMENT_MARKER];
+
+  if (errors.length > 0) {
+    lines.push(
+      `## ❌ Branch Guard: ${errors.length} check(s) failed`,
+      "",
+      ...buildTable(errors),
+    );
+    if (warnings.length > 0) {
+      lines.push("", `### ⚠️ Warnings (${warnings.length})`, "", ...buildTable(warnings));
+    }
+    lines.push("", `> Resolve the issues above and push again, or ${recheckAction}.`);
+  } else {
+    lines.push(
+      `## ⚠️ Branch Guard: ${warnings.length} warning(s)`,
+      "",
+      ...buildTable(warnings),
+      "",
+      `> Warnings don't block merging. Resolve them and push again, or ${recheckAction}.`,
+    );
+  }
+
+  lines.push(
+    ">",
+    "> *This comment is posted by BranchGuard and updates automatically.*",
+  );
+
+  return lines.join("\n");
+}
+
+function buildTable(failures: FailureSummary[]): string[] {
   return [
-    COMMENT_MARKER,
-    `## ❌ Branch Guard: ${count} check(s) failed`,
-    "",
     "| Rule | Result | Details |",
     "|------|--------|---------|",
-    rows,
-    "",
-    `> Resolve the issues above and push again, or ${recheckAction}.`,
-    ">",
-    "> *This comment is posted by BranchGuard and updates automatically.*",
-  ].join("\n");
+    ...failures.map((f) =>
+      f.severity === "warning"
+        ? `| \`${f.ruleName}\` | ⚠️ Warning | ${f.title} |`
+        : `| \`${f.ruleName}\` | ❌ Failed | ${f.title} |`,
+    ),
+  ];
+}
+
+const FAILURE_ROW_REGEX = /^\| `([a-z0-9-]+)` \| (❌ Failed|⚠️ Warning) \| (.*) \|$/;
+
+/**
+ * Recover the failure and warning rows from a previously posted comment.
+ * Only the rule name and title are recoverable — summaries aren't rendered.
+ */
+function parseFailureRows(body: string): FailureSummary[] {
+  const failures: FailureSummary[] = [];
+
+  for (const line of body.split("\n")) {
+    const match = FAILURE_ROW_REGEX.exec(line.trim());
+    if (!match) continue;
+
+    const failure: FailureSummary = { ruleName: match[1], title: match[3], summary: "" };
+    if (match[2] === "⚠️ Warning") failure.severity = "warning";
+    failures.push(failure);
+  }
+
+  return failures;
 }
 
 function buildSuccessBody(): string {
@@ -103,7 +152,7 @@ async function findBotComment(
 // --- Public API ---
 
 /**
- * Post a new PR comment or update an existing one with failure details.
+ * Post a new PR comment or update an existing one with failure and warning details.
  * Never throws — errors are logged but swallowed to avoid breaking check evaluation.
  */
 export async function postOrUpdateFailureComment(
@@ -180,5 +229,68 @@ export async function updateCommentToSuccess(
   }
 }
 
+/**
+ * Update the sticky comment for a subset of rules, keeping rows for any
+ * other rules that are already listed as failing.
+ *
+ * Used when only some rules were re-evaluated (e.g. a timed-out
+ * external_status check), so a full rebuild would drop unrelated failures.
+ * Never throws — errors are logged but swallowed.
+ */
+export async function mergeFailuresIntoComment(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  evaluatedRules: string[],
+  failures: FailureSummary[],
+  logger: Logger,
+): Promise<void> {
+  try {
+    const existing = await findBotComment(octokit, owner, repo, prNumber);
+
+    const evaluated = new Set(evaluatedRules);
+    const kept = existing
+      ? parseFailureRows(existing.body).filter((f) => !evaluated.has(f.ruleName))
+      : [];
+    const merged = [...kept, ...failures];
+
+    if (merged.length > 0) {
+      const body = buildFailureBody(merged, owner, repo, prNumber);
+
+      if (existing) {
+        await withRetry(() =>
+          octokit.request(
+            "PATCH /repos/{owner}/{repo}/issues/comments/{comment_id}",
+            { owner, repo, comment_id: existing.id, body },
+          ),
+        );
+        logger.debug({ commentId: existing.id }, "Merged failures into existing PR comment");
+      } else {
+        await withRetry(() =>
+          octokit.request(
+            "POST /repos/{owner}/{repo}/issues/{issue_number}/comments",
+            { owner, repo, issue_number: prNumber, body },
+          ),
+        );
+        logger.debug("Created new PR comment with failures");
+      }
+      return;
+    }
+
+    if (existing && !existing.body.includes("All checks passed")) {
+      await withRetry(() =>
+        octokit.request(
+          "PATCH /repos/{owner}/{repo}/issues/comments/{comment_id}",
+          { owner, repo, comment_id: existing.id, body: buildSuccessBody() },
+        ),
+      );
+      logger.debug({ commentId: existing.id }, "Updated PR comment to success");
+    }
+  } catch (error) {
+    logger.error({ error }, "Failed to merge failures into PR comment — skipping");
+  }
+}
+
 // Export for testing
-export { COMMENT_MARKER, buildFailureBody, buildSuccessBody, findBotComment };
+export { COMMENT_MARKER, buildFailureBody, buildSuccessBody, findBotComment, parseFailureRows };
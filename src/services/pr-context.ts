@@ -0,0 +1,19 @@
+import type { ChangedFile, PullRequestContext } from "../types.js";
+
+/**
+ * Build a PullRequestContext from a pull request object, as returned by the
+ * REST API or included in webhook payloads.
+ */
+export function buildPrContext(pr: any, files: ChangedFile[]): PullRequestContext {
+  return {
+    number: pr.number,
+    headSha: pr.head.sha,
+    baseBranch: pr.base.ref,
+    baseSha: pr.base.sha,
+    changedFiles: files.map((file) => file.filename),
+    files,
+    prTitle: pr.title ?? undefined,
+    prBody: pr.body ?? undefined,
+    labels: (pr.labels ?? []).map((label: { name: string }) => label.name),
+  };
+}
@@ -1,12 +1,15 @@
 import type { Octokit } from "@octokit/core";
 import type { Logger } from "pino";
+import type { ChangedFile } from "../types.js";
 import { withRetry } from "./retry.js";
 
 const PER_PAGE = 100;
 const LARGE_PR_THRESHOLD = 1000;
+/** The compare API lists at most 300 changed files. */
+const MAX_COMPARE_FILES = 300;
 
 /**
- * Fetch all changed file paths for a pull request.
+ * Fetch all changed files for a pull request, with their line counts and diffs.
  * Handles pagination automatically.
  */
 export async function getPrChangedFiles(
@@ -15,8 +18,8 @@ export async function getPrChangedFiles(
   repo: string,
   prNumber: number,
   logger?: Logger,
-): Promise<string[]> {
-  const files: string[] = [];
+): Promise<ChangedFile[]> {
+  const files: ChangedFile[] = [];
   let page = 1;
 
   while (true) {
@@ -28,9 +31,7 @@ export async function getPrChangedFiles(
     );
 
     const data = response.data as any[];
-    for (const file of data) {
-      files.push(file.filename);
-    }
+    files.push(...data.map(toChangedFile));
 
     if (data.length < PER_PAGE) break;
     page++;
@@ -45,3 +46,45 @@ export async function getPrChangedFiles(
 
   return files;
 }
+
+/**
+ * Fetch the files changed between two commits, e.g. a merge queue entry's
+ * base and head. Used where there's no pull request to list files for.
+ */
+export async function getComparedFiles(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  baseSha: string,
+  headSha: string,
+  logger?: Logger,
+): Promise<ChangedFile[]> {
+  const response = await withRetry(() =>
+    octokit.request(
+      "GET /repos/{owner}/{repo}/compare/{basehead}",
+      { owner, repo, basehead: `${baseSha}...${headSha}` },
+    ),
+  );
+
+  const files = ((response.data as any).files ?? []).map(toChangedFile);
+
+  if (files.length >= MAX_COMPARE_FILES && logger) {
+    logger.warn(
+      { owner, repo, baseSha, headSha, fileCount: files.length },
+      "Comparison lists the maximum number of files — later files may be missing",
+    );
+  }
+
+  return files;
+}
+
+function toChangedFile(file: any): ChangedFile {
+  return {
+    filename: file.filename,
+    status: file.status,
+    additions: file.additions ?? 0,
+    deletions: file.deletions ?? 0,
+    patch: file.patch,
+    previousFilename: file.previous_filename,
+  };
+}
@@ -0,0 +1,178 @@
+import type { Probot } from "probot";
+import type { Octokit } from "@octokit/core";
+import type { Logger } from "pino";
+import { loadConfig } from "./config.js";
+import { listOpenPrs, evaluateOpenPrs } from "./open-prs.js";
+import { withRetry } from "./retry.js";
+
+/**
+ * Check types whose outcome can change without any PR activity,
+ * so they must be re-evaluated on a timer.
+ */
+const TIME_SENSITIVE_CHECK_TYPES = new Set(["branch_age"]);
+
+const DEFAULT_TICK_MINUTES = 15;
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+/** Last scheduled run per `owner/repo`, used to honour each repo's interval. */
+const lastRunByRepo = new Map<string, number>();
+
+/**
+ * Start a background timer that re-evaluates time-sensitive rules
+ * (e.g. `branch_age`) on all open PRs, so they fail without needing a push.
+ *
+ * The timer ticks every `SCHEDULER_TICK_MINUTES` (default 15); each repo is
+ * re-evaluated at most once per its `schedule.interval_minutes` (default 60).
+ * Returns a function that stops the scheduler.
+ */
+export function startScheduledEvaluation(
+  app: Probot,
+  env: NodeJS.ProcessEnv = process.env,
+): () => void {
+  const tickMinutes = Number(env.SCHEDULER_TICK_MINUTES) || DEFAULT_TICK_MINUTES;
+  let running = false;
+
+  const timer = setInterval(() => {
+    // Skip a tick rather than overlap with a slow previous run
+    if (running) return;
+    running = true;
+
+    runScheduledEvaluation(app)
+      .catch((error) => app.log.error({ error }, "Scheduled evaluation failed"))
+      .finally(() => {
+        running = false;
+      });
+  }, tickMinutes * 60 * 1000);
+
+  // Don't keep the process alive just for the scheduler
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+/**
+ * Run one scheduler pass across every installation and repository.
+ */
+export async function runScheduledEvaluation(app: Probot, now: number = Date.now()): Promise<void> {
+  const appOctokit = await app.auth();
+  const installations = await paginate(appOctokit as any, "GET /app/installations", (data) => data);
+
+  for (const installation of installations) {
+    const logger = app.log.child({
+      job: "scheduler",
+      installation: installation.id,
+    }) as unknown as Logger;
+
+    try {
+      const octokit = (await app.auth(installation.id)) as any as Octokit;
+      const repositories = await paginate(
+        octokit,
+        "GET /installation/repositories",
+        (data) => data.repositories,
+      );
+
+      for (const repo of repositories) {
+        const repoLogger = logger.child({ owner: repo.owner.login, repo: repo.name });
+
+        try {
+          await evaluateRepoOnSchedule(octokit, repo.owner.login, repo.name, repoLogger, now);
+        } catch (error) {
+          repoLogger.error({ error }, "Scheduled evaluation failed for repo — continuing");
+        }
+      }
+    } catch (error) {
+      logger.error({ error }, "Scheduled evaluation failed for installation — continuing");
+    }
+  }
+}
+
+/**
+ * Re-evaluate the time-sensitive rules of one repo if its scheduled
+ * interval has elapsed. Exported for testing.
+ */
+export async function evaluateRepoOnSchedule(
+  octokit: Octokit,
+  owner: string,
+  repoName: string,
+  logger: Logger,
+  now: number = Date.now(),
+): Promise<void> {
+  const configResult = await loadConfig(octokit, owner, repoName);
+
+  if (configResult.status !== "loaded") {
+    logger.debug({ status: configResult.status }, "Config not loaded — skipping");
+    return;
+  }
+
+  const { config } = configResult;
+  if (config.schedule?.enabled === false) {
+    logger.debug("Scheduled evaluation disabled — skipping");
+    return;
+  }
+
+  const timeSensitiveRules = config.rules.filter((rule) =>
+    TIME_SENSITIVE_CHECK_TYPES.has(rule.check_type),
+  );
+
+  if (timeSensitiveRules.length === 0) {
+    logger.debug("No time-sensitive rules — skipping");
+    return;
+  }
+
+  const repoKey = `${owner}/${repoName}`;
+  const intervalMs = (config.schedule?.interval_minutes ?? DEFAULT_INTERVAL_MINUTES) * 60 * 1000;
+  const lastRun = lastRunByRepo.get(repoKey);
+
+  if (lastRun !== undefined && now - lastRun < intervalMs) {
+    return;
+  }
+
+  lastRunByRepo.set(repoKey, now);
+
+  const openPrs = await listOpenPrs(octokit, owner, repoName);
+
+  if (openPrs.length === 0) {
+    logger.debug("No open PRs — skipping");
+    return;
+  }
+
+  logger.info(
+    { prCount: openPrs.length, rules: timeSensitiveRules.map((r) => r.name) },
+    "Re-evaluating time-sensitive rules on schedule",
+  );
+
+  await evaluateOpenPrs(
+    octokit,
+    owner,
+    repoName,
+    config,
+    openPrs,
+    logger,
+    timeSensitiveRules.map((r) => r.name),
+  );
+}
+
+/** Clear scheduler run history (useful for testing). */
+export function clearScheduleHistory(): void {
+  lastRunByRepo.clear();
+}
+
+async function paginate(
+  octokit: Octokit,
+  route: string,
+  extract: (data: any) => any[],
+): Promise<any[]> {
+  const items: any[] = [];
+  let page = 1;
+
+  while (true) {
+    const response = await withRetry(() => octokit.request(route, { per_page: 100, page }));
+    const pageItems = extract(response.data) ?? [];
+    items.push(...pageItems);
+
+    if (pageItems.length < 100) break;
+    page++;
+  }
+
+  return items;
+}
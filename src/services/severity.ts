@@ -0,0 +1,36 @@
+import type { CheckAnnotation, CheckResult, Severity } from "../types.js";
+
+const ANNOTATION_LEVELS: Record<Severity, CheckAnnotation["level"]> = {
+  error: "failure",
+  warning: "warning",
+  info: "notice",
+};
+
+/**
+ * Adjust a check result for the rule's severity before it is posted.
+ * Failing `warning` and `info` rules post a neutral conclusion so they
+ * don't block merging, and their annotations are downgraded to match.
+ */
+export function applySeverity(result: CheckResult, severity: Severity | undefined): CheckResult {
+  if (result.conclusion !== "failure" || !severity || severity === "error") {
+    return result;
+  }
+
+  return {
+    ...result,
+    conclusion: "neutral",
+    annotations: result.annotations?.map((a) => ({
+      ...a,
+      level: a.level === "failure" ? ANNOTATION_LEVELS[severity] : a.level,
+    })),
+  };
+}
+
+/**
+ * Severity of a failing rule's row in the sticky PR comment, or null when
+ * the failure shouldn't be listed (`info` rules only annotate the check run).
+ */
+export function commentSeverity(severity: Severity | undefined): "error" | "warning" | null {
+  if (severity === "info") return null;
+  return severity === "warning" ? "warning" : "error";
+}
@@ -0,0 +1,113 @@
+import type { Octokit } from "@octokit/core";
+import type { Config, Rule } from "../types.js";
+import { SHADOW_CHECK_NAME } from "../types.js";
+import { createCheckRun, updateCheckRun, findCheckRun } from "./check-runs.js";
+
+/** What a shadow-mode rule would have posted for a PR. */
+export interface ShadowOutcome {
+  ruleName: string;
+  conclusion: "success" | "failure" | "neutral" | "pending" | "error";
+  title: string;
+}
+
+/** Per-rule tally of shadow outcomes across a set of PRs. */
+export interface ShadowReportEntry {
+  ruleName: string;
+  evaluated: number;
+  wouldFail: number;
+  failingPrs: number[];
+}
+
+/**
+ * A rule runs in shadow mode when it sets `mode: shadow` or the whole
+ * config does. Shadow rules are executed but never post their own check
+ * run or PR comment.
+ */
+export function isShadowRule(rule: Rule, config: Config): boolean {
+  return config.mode === "shadow" || rule.mode === "shadow";
+}
+
+/**
+ * Post or update the `branch-guard/shadow` summary check. It is always
+ * neutral so it never blocks a merge.
+ */
+export async function postShadowSummary(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  headSha: string,
+  outcomes: ShadowOutcome[],
+): Promise<void> {
+  const failing = outcomes.filter((o) => o.conclusion === "failure" || o.conclusion === "error");
+  const rows = outcomes
+    .map((o) => `| \`${o.ruleName}\` | ${describeOutcome(o.conclusion)} | ${o.title} |`)
+    .join("\n");
+
+  const output = {
+    title: `Shadow mode: ${failing.length} of ${outcomes.length} rule(s) would fail`,
+    summary: [
+      "These rules run in shadow mode — their results are informational only.",
+      "",
+      "| Rule | Would be | Details |",
+      "|------|----------|---------|",
+      rows,
+    ].join("\n"),
+  };
+
+  const existing = await findCheckRun(octokit, owner, repo, headSha, SHADOW_CHECK_NAME);
+
+  if (existing) {
+    await updateCheckRun(octokit, {
+      owner,
+      repo,
+      checkRunId: existing.id,
+      status: "completed",
+      conclusion: "neutral",
+      output,
+    });
+  } else {
+    await createCheckRun(octokit, {
+      owner,
+      repo,
+      headSha,
+      name: SHADOW_CHECK_NAME,
+      status: "completed",
+      conclusion: "neutral",
+      output,
+    });
+  }
+}
+
+/**
+ * Tally shadow outcomes per rule across PRs, e.g. to report how many open
+ * PRs a new rule would fail before it is enforced.
+ */
+export function buildShadowReport(outcomesByPr: Map<number, ShadowOutcome[]>): ShadowReportEntry[] {
+  const entries = new Map<string, ShadowReportEntry>();
+
+  for (const [prNumber, outcomes] of outcomesByPr) {
+    for (const outcome of outcomes) {
+      const entry = entries.get(outcome.ruleName) ??
+        { ruleName: outcome.ruleName, evaluated: 0, wouldFail: 0, failingPrs: [] };
+
+      entry.evaluated++;
+      if (outcome.conclusion === "failure" || outcome.conclusion === "error") {
+        entry.wouldFail++;
+        entry.failingPrs.push(prNumber);
+      }
+      entries.set(outcome.ruleName, entry);
+    }
+  }
+
+  return [...entries.values()];
+}
+
+function describeOutcome(conclusion: ShadowOutcome["conclusion"]): string {
+  switch (conclusion) {
+    case "success": return "✅ Pass";
+    case "failure": return "❌ Fail";
+    case "neutral": return "⚠️ Neutral";
+    case "pending": return "⏳ Pending";
+    case "error": return "💥 Error";
+  }
+}
@@ -0,0 +1,190 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import pino, { type Logger } from "pino";
+
+type StateStoreBackend = "memory" | "file";
+
+/** Receives store warnings; replaced with the app's logger at startup. */
+let storeLogger: Logger = pino({ name: "state-store" });
+
+/**
+ * Minimal key/value store for state that must outlive a single webhook
+ * (e.g. pending external_status evaluations).
+ *
+ * The API is synchronous so callers don't need to care which backend is active.
+ */
+export interface StateStore<T> {
+  get(key: string): T | undefined;
+  set(key: string, value: T): void;
+  delete(key: string): void;
+  entries(): Array<[string, T]>;
+  clear(): void;
+}
+
+/**
+ * In-memory store. Lost on restart.
+ */
+export class MemoryStateStore<T> implements StateStore<T> {
+  private store = new Map<string, T>();
+
+  get(key: string): T | undefined {
+    return this.store.get(key);
+  }
+
+  set(key: string, value: T): void {
+    this.store.set(key, value);
+  }
+
+  delete(key: string): void {
+    this.store.delete(key);
+  }
+
+  entries(): Array<[string, T]> {
+    return Array.from(this.store.entries());
+  }
+
+  clear(): void {
+    this.store.clear();
+  }
+}
+
+/**
+ * JSON file-backed store. Entries are held in memory and written through
+ * to disk on every mutation, so they survive restarts and machine auto-stop.
+ * Writes go to a temp file first and are renamed into place to avoid
+ * leaving a half-written file behind.
+ */
+export class FileStateStore<T> implements StateStore<T> {
+  private store = new Map<string, T>();
+  private readonly filePath: string;
+  private readonly logger: Logger;
+
+  constructor(filePath: string, logger: Logger = storeLogger) {
+    this.filePath = filePath;
+    this.logger = logger;
+    this.load();
+  }
+
+  get(key: string): T | undefined {
+    return this.store.get(key);
+  }
+
+  set(key: string, value: T): void {
+    this.store.set(key, value);
+    this.persist();
+  }
+
+  delete(key: string): void {
+    if (this.store.delete(key)) {
+      this.persist();
+    }
+  }
+
+  entries(): Array<[string, T]> {
+    return Array.from(this.store.entries());
+  }
+
+  clear(): void {
+    this.store.clear();
+    this.persist();
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(this.filePath, "utf-8")) as Record<string, T>;
+      this.store = new Map(Object.entries(raw));
+    } catch {
+      // Corrupt or unreadable state file — start empty rather than crash the app.
+      // The next write replaces it.
+      this.logger.warn({ filePath: this.filePath }, "Ignoring unreadable state file");
+      this.store = new Map();
+    }
+  }
+
+  private persist(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(Object.fromEntries(this.store)));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * Store that creates its backend on first use, so modules can declare their
+ * store at import time without reading `STATE_STORE` or touching disk.
+ */
+class LazyStateStore<T> implements StateStore<T> {
+  private store: StateStore<T> | undefined;
+
+  constructor(private readonly name: string) {}
+
+  get(key: string): T | undefined {
+    return this.resolve().get(key);
+  }
+
+  set(key: string, value: T): void {
+    this.resolve().set(key, value);
+  }
+
+  delete(key: string): void {
+    this.resolve().delete(key);
+  }
+
+  entries(): Array<[string, T]> {
+    return this.resolve().entries();
+  }
+
+  clear(): void {
+    this.resolve().clear();
+  }
+
+  private resolve(): StateStore<T> {
+    return (this.store ??= createStateStore<T>(this.name));
+  }
+}
+
+const DEFAULT_STATE_DIR = "data";
+
+/**
+ * Validate the `STATE_STORE` setting and route store warnings to the app's
+ * logger. Called once at startup so a misconfigured backend fails with a
+ * clear error before any webhook is handled.
+ */
+export function configureStateStores(logger: Logger, env: NodeJS.ProcessEnv = process.env): void {
+  stateStoreBackend(env);
+  storeLogger = logger;
+}
+
+/**
+ * Create a store for the given name using the backend selected by the
+ * `STATE_STORE` environment variable (`memory` by default, or `file`).
+ * File stores are written to `${STATE_DIR}/${name}.json`.
+ */
+export function createStateStore<T>(
+  name: string,
+  env: NodeJS.ProcessEnv = process.env,
+): StateStore<T> {
+  switch (stateStoreBackend(env)) {
+    case "memory":
+      return new MemoryStateStore<T>();
+    case "file":
+      return new FileStateStore<T>(
+        path.join(env.STATE_DIR ?? DEFAULT_STATE_DIR, `${name}.json`),
+      );
+  }
+}
+
+/** A store for the given name whose backend is created on first use. */
+export function lazyStateStore<T>(name: string): StateStore<T> {
+  return new LazyStateStore<T>(name);
+}
+
+function stateStoreBackend(env: NodeJS.ProcessEnv): StateStoreBackend {
+  const backend = env.STATE_STORE ?? "memory";
+  if (backend !== "memory" && backend !== "file") {
+    throw new Error(`Unknown STATE_STORE backend: ${backend} (expected "memory" or "file")`);
+  }
+  return backend;
+}
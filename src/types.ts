@@ -1,17 +1,36 @@
 import { z } from "zod";
 import type { Octokit } from "@octokit/core";
 import type { Logger } from "pino";
+import { templatePlaceholders } from "./services/path-template.js";
 
 // --- Config Schemas ---
 
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const PathStatusSchema = z.enum(["added", "modified", "removed", "renamed"]);
+
 const PathsSchema = z.object({
   include: z.array(z.string()).min(1),
   exclude: z.array(z.string()).optional().default([]),
+  statuses: z.array(PathStatusSchema).min(1).optional(),
+});
+
+const LabelsFilterSchema = z.object({
+  include: z.array(z.string()).min(1).optional(),
+  exclude: z.array(z.string()).optional().default([]),
 });
 
 const OnSchema = z.object({
   branches: z.array(z.string()).min(1),
   paths: PathsSchema,
+  labels: LabelsFilterSchema.optional(),
 });
 
 const FailureMessageSchema = z.object({
@@ -19,26 +38,55 @@ const FailureMessageSchema = z.object({
   summary: z.string().optional(),
 }).optional();
 
+const SeveritySchema = z.enum(["error", "warning", "info"]);
+const RuleModeSchema = z.enum(["enforce", "shadow"]);
+
+// These check names are taken by the config and shadow summary checks
+const RESERVED_RULE_NAMES = ["config", "shadow"];
+
 const BaseRuleFields = {
-  name: z.string().regex(/^[a-z0-9-]+$/, "Rule name must be lowercase alphanumeric with hyphens"),
+  name: z.string()
+    .regex(/^[a-z0-9-]+$/, "Rule name must be lowercase alphanumeric with hyphens")
+    .refine((name) => !RESERVED_RULE_NAMES.includes(name), {
+      message: `Rule name must not be one of the reserved names: ${RESERVED_RULE_NAMES.join(", ")}`,
+    }),
   description: z.string(),
   on: OnSchema,
   failure_message: FailureMessageSchema,
   notify: z.boolean().optional().default(true),
+  severity: SeveritySchema.optional().default("error"),
+  mode: RuleModeSchema.optional().default("enforce"),
 };
 
 const FilePresenceConfigSchema = z.object({
   mode: z.enum(["base_subset_of_head"]),
 });
 
+const CompanionPatternSchema = z.object({
+  from: z.string(),
+  to: z.union([z.string(), z.array(z.string()).min(1)]),
+}).refine(
+  (data) => {
+    const available = new Set(templatePlaceholders(data.from));
+    const targets = Array.isArray(data.to) ? data.to : [data.to];
+    return targets.every((t) => templatePlaceholders(t).every((name) => available.has(name)));
+  },
+  { message: "Every placeholder in `to` must also appear in `from`", path: ["to"] },
+);
+
 const FilePairConfigSchema = z.object({
-  companion: z.union([z.string(), z.array(z.string()).min(1)]),
+  companion: z.union([z.string(), z.array(z.string()).min(1)]).optional(),
+  companion_pattern: CompanionPatternSchema.optional(),
   mode: z.enum(["any", "all"]).optional().default("any"),
-});
+}).refine(
+  (data) => (data.companion === undefined) !== (data.companion_pattern === undefined),
+  { message: "Exactly one of companion or companion_pattern must be provided" },
+);
 
 const ExternalStatusConfigSchema = z.object({
   required_checks: z.array(z.string()).min(1),
   timeout_minutes: z.number().positive().optional().default(30),
+  timeout_conclusion: z.enum(["failure", "neutral"]).optional().default("failure"),
 });
 
 const BranchAgeConfigSchema = z.object({
@@ -56,6 +104,98 @@ const ApprovalGateConfigSchema = z.object({
   { message: "At least one of required_teams or required_users must be provided" },
 );
 
+const CommitMessageConfigSchema = z.object({
+  pattern: z.string().optional(),
+  preset: z.enum(["conventional"]).optional(),
+  ignore_merge_commits: z.boolean().optional().default(true),
+  ignore_fixup_commits: z.boolean().optional().default(false),
+}).refine(
+  (data) => data.pattern !== undefined || data.preset !== undefined,
+  { message: "At least one of pattern or preset must be provided" },
+).refine(
+  (data) => data.pattern === undefined || isValidRegex(data.pattern),
+  { message: "pattern must be a valid regular expression", path: ["pattern"] },
+);
+
+const PrMetadataConfigSchema = z.object({
+  title_pattern: z.string().optional(),
+  required_sections: z.array(z.string()).min(1).optional(),
+  min_body_length: z.number().int().positive().optional(),
+}).refine(
+  (data) => data.title_pattern !== undefined ||
+            data.required_sections !== undefined ||
+            data.min_body_length !== undefined,
+  { message: "At least one of title_pattern, required_sections or min_body_length must be provided" },
+).refine(
+  (data) => data.title_pattern === undefined || isValidRegex(data.title_pattern),
+  { message: "title_pattern must be a valid regular expression", path: ["title_pattern"] },
+);
+
+const LabelRequiredConfigSchema = z.object({
+  labels: z.array(z.string()).min(1),
+  mode: z.enum(["any", "all"]).optional().default("any"),
+});
+
+const LabelForbiddenConfigSchema = z.object({
+  labels: z.array(z.string()).min(1),
+});
+
+const PrSizeConfigSchema = z.object({
+  max_files: z.number().int().positive().optional(),
+  max_additions: z.number().int().positive().optional(),
+  max_deletions: z.number().int().positive().optional(),
+  max_changes: z.number().int().positive().optional(),
+}).refine(
+  (data) => data.max_files !== undefined ||
+            data.max_additions !== undefined ||
+            data.max_deletions !== undefined ||
+            data.max_changes !== undefined,
+  { message: "At least one of max_files, max_additions, max_deletions or max_changes must be provided" },
+);
+
+const ContentPatternEntrySchema = z.object({
+  pattern: z.string(),
+  message: z.string().optional(),
+}).refine(
+  (data) => isValidRegex(data.pattern),
+  { message: "pattern must be a valid regular expression", path: ["pattern"] },
+);
+
+const ContentPatternConfigSchema = z.object({
+  forbidden: z.array(ContentPatternEntrySchema).min(1).optional(),
+  required: z.array(ContentPatternEntrySchema).min(1).optional(),
+}).refine(
+  (data) => data.forbidden !== undefined || data.required !== undefined,
+  { message: "At least one of forbidden or required must be provided" },
+);
+
+const ImmutableFilesConfigSchema = z.object({
+  allow_deletions: z.boolean().optional().default(false),
+});
+
+const FileAbsentConfigSchema = z.object({
+  forbidden: z.array(z.string()).min(1),
+  allowed: z.array(z.string()).optional().default([]),
+  introduced_only: z.boolean().optional().default(false),
+});
+
+const FileSizeConfigSchema = z.object({
+  max_bytes: z.number().int().positive().optional(),
+  forbid_binaries: z.boolean().optional().default(false),
+  allowed_binary_paths: z.array(z.string()).optional().default([]),
+}).refine(
+  (data) => data.max_bytes !== undefined || data.forbid_binaries,
+  { message: "At least one of max_bytes or forbid_binaries must be provided" },
+);
+
+const MigrationOrderConfigSchema = z.object({
+  pattern: z.string().optional().default("^(\\d+)"),
+  per_directory: z.boolean().optional().default(false),
+}).refine(
+  (data) => isValidRegex(data.pattern),
+  { message: "pattern must be a valid regular expression", path: ["pattern"] },
+);
+
 const FilePresenceRuleSchema = z.object({
   ...BaseRuleFields,
   check_type: z.literal("file_presence"),
@@ -86,16 +226,105 @@ const ApprovalGateRuleSchema = z.object({
   config: ApprovalGateConfigSchema,
 });
 
+const CommitMessageRuleSchema = z.object({
+  ...BaseRuleFields,
+  check_type: z.literal("commit_message"),
+  config: CommitMessageConfigSchema,
+});
+
+const PrMetadataRuleSchema = z.object({
+  ...BaseRuleFields,
+  check_type: z.literal("pr_metadata"),
+  config: PrMetadataConfigSchema,
+});
+
+const LabelRequiredRuleSchema = z.object({
+  ...BaseRuleFields,
+  check_type: z.literal("label_required"),
+  config: LabelRequiredConfigSchema,
+});
+
+const LabelForbiddenRuleSchema = z.object({
+  ...BaseRuleFields,
+  check_type: z.literal("label_forbidden"),
+  config: LabelForbiddenConfigSchema,
+});
+
+const PrSizeRuleSchema = z.object({
+  ...BaseRuleFields,
+  check_type: z.literal("pr_size"),
+  config: PrSizeConfigSchema,
+});
+
+const ContentPatternRuleSchema = z.object({
+  ...BaseRuleFields,
+  check_type: z.literal("content_pattern"),
+  config: ContentPatternConfigSchema,
+});
+
+const ImmutableFilesRuleSchema = z.object({
+  ...BaseRuleFields,
+  check_type: z.literal("immutable_files"),
+  // Nothing to configure for the common case, so `config` may be left out
+  config: ImmutableFilesConfigSchema.optional().prefault({}),
+});
+
+const FileAbsentRuleSchema = z.object({
+  ...BaseRuleFields,
+  check_type: z.literal("file_absent"),
+  config: FileAbsentConfigSchema,
+});
+
+const FileSizeRuleSchema = z.object({
+  ...BaseRuleFields,
+  check_type: z.literal("file_size"),
+  config: FileSizeConfigSchema,
+});
+
+const MigrationOrderRuleSchema = z.object({
+  ...BaseRuleFields,
+  check_type: z.literal("migration_order"),
+  config: MigrationOrderConfigSchema.optional().prefault({}),
+});
+
 export const RuleSchema = z.discriminatedUnion("check_type", [
   FilePresenceRuleSchema,
   FilePairRuleSchema,
   ExternalStatusRuleSchema,
   BranchAgeRuleSchema,
   ApprovalGateRuleSchema,
+  CommitMessageRuleSchema,
+  PrMetadataRuleSchema,
+  LabelRequiredRuleSchema,
+  LabelForbiddenRuleSchema,
+  PrSizeRuleSchema,
+  ContentPatternRuleSchema,
+  ImmutableFilesRuleSchema,
+  FileAbsentRuleSchema,
+  FileSizeRuleSchema,
+  MigrationOrderRuleSchema,
 ]);
 
+const ScheduleSchema = z.object({
+  enabled: z.boolean().optional().default(true),
+  interval_minutes: z.number().int().min(15).optional().default(60),
+});
+
+const ShadowSchema = z.object({
+  summary_check: z.boolean().optional().default(false),
+});
+
+const OverridesSchema = z.object({
+  allowed_teams: z.array(z.string()).optional().default([]),
+  allowed_users: z.array(z.string()).optional().default([]),
+});
+
 export const ConfigSchema = z.object({
   rules: z.array(RuleSchema).min(1).max(20),
+  schedule: ScheduleSchema.optional(),
+  mode: RuleModeSchema.optional(),
+  shadow: ShadowSchema.optional(),
+  overrides: OverridesSchema.optional(),
 });
 
 // --- Inferred Types ---
@@ -105,6 +334,22 @@ export type FilePairConfig = z.infer<typeof FilePairConfigSchema>;
 export type ExternalStatusConfig = z.infer<typeof ExternalStatusConfigSchema>;
 export type BranchAgeConfig = z.infer<typeof BranchAgeConfigSchema>;
 export type ApprovalGateConfig = z.infer<typeof ApprovalGateConfigSchema>;
+export type CommitMessageConfig = z.infer<typeof CommitMessageConfigSchema>;
+export type PrMetadataConfig = z.infer<typeof PrMetadataConfigSchema>;
+export type LabelRequiredConfig = z.infer<typeof LabelRequiredConfigSchema>;
+export type LabelForbiddenConfig = z.infer<typeof LabelForbiddenConfigSchema>;
+export type PrSizeConfig = z.infer<typeof PrSizeConfigSchema>;
+export type ContentPatternConfig = z.infer<typeof ContentPatternConfigSchema>;
+export type ImmutableFilesConfig = z.infer<typeof ImmutableFilesConfigSchema>;
+export type FileAbsentConfig = z.infer<typeof FileAbsentConfigSchema>;
+export type FileSizeConfig = z.infer<typeof FileSizeConfigSchema>;
+export type MigrationOrderConfig = z.infer<typeof MigrationOrderConfigSchema>;
+export type ScheduleConfig = z.infer<typeof ScheduleSchema>;
+export type Severity = z.infer<typeof SeveritySchema>;
+export type RuleMode = z.infer<typeof RuleModeSchema>;
+export type PathsFilter = z.infer<typeof PathsSchema>;
+export type PathStatus = z.infer<typeof PathStatusSchema>;
+export type OverridesConfig = z.infer<typeof OverridesSchema>;
 
 export type Rule = z.infer<typeof RuleSchema>;
 export type Config = z.infer<typeof ConfigSchema>;
@@ -114,16 +359,54 @@ export type FilePairRule = z.infer<typeof FilePairRuleSchema>;
 export type ExternalStatusRule = z.infer<typeof ExternalStatusRuleSchema>;
 export type BranchAgeRule = z.infer<typeof BranchAgeRuleSchema>;
 export type ApprovalGateRule = z.infer<typeof ApprovalGateRuleSchema>;
+export type CommitMessageRule = z.infer<typeof CommitMessageRuleSchema>;
+export type PrMetadataRule = z.infer<typeof PrMetadataRuleSchema>;
+export type LabelRequiredRule = z.infer<typeof LabelRequiredRuleSchema>;
+export type LabelForbiddenRule = z.infer<typeof LabelForbiddenRuleSchema>;
+export type PrSizeRule = z.infer<typeof PrSizeRuleSchema>;
+export type ContentPatternRule = z.infer<typeof ContentPatternRuleSchema>;
+export type ImmutableFilesRule = z.infer<typeof ImmutableFilesRuleSchema>;
+export type FileAbsentRule = z.infer<typeof FileAbsentRuleSchema>;
+export type FileSizeRule = z.infer<typeof FileSizeRuleSchema>;
+export type MigrationOrderRule = z.infer<typeof MigrationOrderRuleSchema>;
 
 // --- Check Type Interface ---
 
+export type ChangedFileStatus =
+  | "added"
+  | "removed"
+  | "modified"
+  | "renamed"
+  | "copied"
+  | "changed"
+  | "unchanged";
+
+/** A file changed by a pull request, with its line counts and diff. */
+export interface ChangedFile {
+  filename: string;
+  status: ChangedFileStatus;
+  additions: number;
+  deletions: number;
+  /** Unified diff hunk; GitHub omits it for binary and very large files */
+  patch?: string;
+  /** Path before the change, for renamed files */
+  previousFilename?: string;
+}
+
 export interface PullRequestContext {
-  number: number;
+  /** Absent for merge queue entries, which aren't tied to a single PR */
+  number?: number;
   headSha: string;
   baseBranch: string;
   baseSha: string;
   changedFiles: string[];
+  /** Per-file status, previous path and line counts; absent when only paths are known */
+  files?: ChangedFile[];
+  prTitle?: string;
   prBody?: string;
+  labels?: string[];
+  /** Head SHA of the PR a merge queue entry was created for, which overrides are recorded against */
+  prHeadSha?: string;
 }
 
 export interface CheckContext {
@@ -133,17 +416,25 @@ export interface CheckContext {
   rule: Rule;
   pr: PullRequestContext;
   logger: Logger;
+  /** Set for shadow-mode rules and explain traces — checks must not cause side effects */
+  dryRun?: boolean;
 }
 
 export interface CheckResult {
-  conclusion: "success" | "failure";
+  conclusion: "success" | "failure" | "neutral";
   title: string;
   summary: string;
   details?: string;
+  annotations?: CheckAnnotation[];
 }
 
 export interface CheckType {
   name: string;
+  /**
+   * Set for checks that read PR data (reviews, commits, title, labels).
+   * They pass without running for merge queue entries, which have no PR.
+   */
+  requiresPullRequest?: boolean;
   execute(ctx: CheckContext): Promise<CheckResult>;
 }
 
@@ -156,10 +447,27 @@ export type ConfigLoadResult =
 
 // --- Check Run Helpers ---
 
+export interface CheckAnnotation {
+  path: string;
+  startLine: number;
+  endLine: number;
+  level: "notice" | "warning" | "failure";
+  message: string;
+  title?: string;
+}
+
 export interface CheckRunOutput {
   title: string;
   summary: string;
   text?: string;
+  annotations?: CheckAnnotation[];
+}
+
+/** A button shown on a check run, reported back as `check_run.requested_action`. */
+export interface CheckRunAction {
+  label: string;
+  description: string;
+  identifier: string;
 }
 
 export interface CreateCheckRunParams {
@@ -170,6 +478,7 @@ export interface CreateCheckRunParams {
   status: "queued" | "in_progress" | "completed";
   conclusion?: "success" | "failure" | "neutral";
   output?: CheckRunOutput;
+  actions?: CheckRunAction[];
 }
 
 export interface UpdateCheckRunParams {
@@ -179,6 +488,7 @@ export interface UpdateCheckRunParams {
   status?: "queued" | "in_progress" | "completed";
   conclusion?: "success" | "failure" | "neutral";
   output?: CheckRunOutput;
+  actions?: CheckRunAction[];
 }
 
 export const CHECK_NAME_PREFIX = "branch-guard";
@@ -188,3 +498,15 @@ export function checkRunName(ruleName: string): string {
 }
 
 export const CONFIG_CHECK_NAME = `${CHECK_NAME_PREFIX}/config`;
+export const SHADOW_CHECK_NAME = `${CHECK_NAME_PREFIX}/shadow`;
+
+/**
+ * Inverse of `checkRunName`: the rule a check run was posted for, or null
+ * for checks that don't belong to a rule.
+ */
+export function ruleNameFromCheckRun(checkName: string): string | null {
+  const prefix = `${CHECK_NAME_PREFIX}/`;
+  if (!checkName.startsWith(prefix)) return null;
+  if (checkName === CONFIG_CHECK_NAME || checkName === SHADOW_CHECK_NAME) return null;
+  return checkName.slice(prefix.length);
+}
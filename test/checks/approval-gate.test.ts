@@ -439,6 +439,22 @@ describe("ApprovalGateCheck", () => {
       expect(result.summary).toContain("Reviewers auto-requested: @backend-team");
     });
 
+    it("does not request reviewers in a dry run", async () => {
+      const ctx = createMockContext(
+        [],
+        { "backend-team": ["alice"] },
+        { required_teams: ["backend-team"], auto_request_reviewers: true },
+      );
+      ctx.dryRun = true;
+
+      const result = await check.execute(ctx);
+
+      expect(result.conclusion).toBe("failure");
+      const calls = (ctx.octokit.request as any).mock.calls;
+      const requestCalls = calls.filter((c: any) => c[0].includes("/requested_reviewers"));
+      expect(requestCalls).toHaveLength(0);
+    });
+
     it("requests only missing teams, not already-approved ones (mode: all)", async () => {
       const ctx = createMockContext(
         [{ user: "alice", state: "APPROVED" }],
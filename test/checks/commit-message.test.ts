@@ -0,0 +1,188 @@
+import { describe, it, expect, vi } from "vitest";
+import { CommitMessageCheck } from "../../src/checks/commit-message.js";
+import type { CheckContext, CommitMessageRule } from "../../src/types.js";
+
+interface MockCommit {
+  sha: string;
+  message: string;
+  parents?: number;
+}
+
+function createMockContext(
+  commits: MockCommit[],
+  config: Partial<CommitMessageRule["config"]>,
+): CheckContext {
+  return {
+    octokit: {
+      request: vi.fn().mockResolvedValue({
+        data: commits.map((c) => ({
+          sha: c.sha,
+          commit: { message: c.message },
+          parents: Array.from({ length: c.parents ?? 1 }, (_, i) => ({ sha: `parent${i}` })),
+        })),
+      }),
+    } as any,
+    owner: "owner",
+    repo: "repo",
+    rule: {
+      name: "commit-convention",
+      description: "Commit messages must follow the convention",
+      check_type: "commit_message" as const,
+      on: {
+        branches: ["main"],
+        paths: { include: ["**/*"], exclude: [] },
+      },
+      config: {
+        ignore_merge_commits: true,
+        ignore_fixup_commits: false,
+        ...config,
+      },
+    } as CommitMessageRule,
+    pr: {
+      number: 7,
+      headSha: "head123",
+      baseBranch: "main",
+      baseSha: "base123",
+      changedFiles: ["src/app.ts"],
+    },
+    logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), child: vi.fn().mockReturnThis() } as any,
+  };
+}
+
+describe("CommitMessageCheck", () => {
+  const check = new CommitMessageCheck();
+
+  describe("conventional preset", () => {
+    it("passes when every commit follows Conventional Commits", async () => {
+      const ctx = createMockContext(
+        [
+          { sha: "aaaaaaa1", message: "feat(api): add users endpoint" },
+          { sha: "bbbbbbb2", message: "fix!: drop legacy flag\n\nBREAKING CHANGE: removed" },
+        ],
+        { preset: "conventional" },
+      );
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("success");
+      expect(result.summary).toContain("All 2 checked commit message(s)");
+    });
+
+    it("fails and lists offending SHAs and messages", async () => {
+      const ctx = createMockContext(
+        [
+          { sha: "aaaaaaa1", message: "feat: add users endpoint" },
+          { sha: "bbbbbbb2", message: "wip" },
+          { sha: "ccccccc3", message: "Update README.md" },
+        ],
+        { preset: "conventional" },
+      );
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("failure");
+      expect(result.title).toBe("2 commit message(s) don't follow the convention");
+      expect(result.details).toContain("`bbbbbbb` wip");
+      expect(result.details).toContain("`ccccccc` Update README.md");
+      expect(result.details).not.toContain("aaaaaaa");
+    });
+
+    it("only validates the subject line", async () => {
+      const ctx = createMockContext(
+        [{ sha: "aaaaaaa1", message: "docs: fix typo\n\nno convention needed in the body" }],
+        { preset: "conventional" },
+      );
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("success");
+    });
+  });
+
+  describe("custom pattern", () => {
+    it("validates against the configured regex", async () => {
+      const ctx = createMockContext(
+        [
+          { sha: "aaaaaaa1", message: "ABC-123: add users endpoint" },
+          { sha: "bbbbbbb2", message: "add users endpoint" },
+        ],
+        { pattern: "^[A-Z]+-\\d+: " },
+      );
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("failure");
+      expect(result.details).toContain("bbbbbbb");
+      expect(result.summary).toContain("^[A-Z]+-\\d+: ");
+    });
+  });
+
+  describe("ignored commits", () => {
+    it("ignores merge commits by default", async () => {
+      const ctx = createMockContext(
+        [
+          { sha: "aaaaaaa1", message: "feat: add users endpoint" },
+          { sha: "bbbbbbb2", message: "Merge branch 'main' into feature", parents: 2 },
+        ],
+        { preset: "conventional" },
+      );
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("success");
+      expect(result.summary).toContain("All 1 checked");
+    });
+
+    it("checks merge commits when ignore_merge_commits is false", async () => {
+      const ctx = createMockContext(
+        [{ sha: "bbbbbbb2", message: "Merge branch 'main' into feature", parents: 2 }],
+        { preset: "conventional", ignore_merge_commits: false },
+      );
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("failure");
+    });
+
+    it("ignores fixup and squash commits when enabled", async () => {
+      const ctx = createMockContext(
+        [
+          { sha: "aaaaaaa1", message: "feat: add users endpoint" },
+          { sha: "bbbbbbb2", message: "fixup! feat: add users endpoint" },
+          { sha: "ccccccc3", message: "squash! feat: add users endpoint" },
+        ],
+        { preset: "conventional", ignore_fixup_commits: true },
+      );
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("success");
+    });
+
+    it("fails on fixup commits when not ignored", async () => {
+      const ctx = createMockContext(
+        [{ sha: "bbbbbbb2", message: "fixup! feat: add users endpoint" }],
+        { preset: "conventional" },
+      );
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("failure");
+    });
+  });
+
+  it("paginates through PR commits", async () => {
+    const page1 = Array.from({ length: 100 }, (_, i) => ({
+      sha: `sha${i}`,
+      commit: { message: "feat: change" },
+      parents: [{ sha: "p" }],
+    }));
+    const page2 = [{ sha: "last", commit: { message: "bad" }, parents: [{ sha: "p" }] }];
+
+    const ctx = createMockContext([], { preset: "conventional" });
+    (ctx.octokit.request as any)
+      .mockResolvedValueOnce({ data: page1 })
+      .mockResolvedValueOnce({ data: page2 });
+
+    const result = await check.execute(ctx);
+    expect(ctx.octokit.request).toHaveBeenCalledTimes(2);
+    expect(ctx.octokit.request).toHaveBeenCalledWith(
+      "GET /repos/{owner}/{repo}/pulls/{pull_number}/commits",
+      expect.objectContaining({ pull_number: 7, page: 2 }),
+    );
+    expect(result.conclusion).toBe("failure");
+    expect(result.details).toContain("`last` bad");
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, vi } from "vitest";
+import { ContentPatternCheck } from "../../src/checks/content-pattern.js";
+import type { ChangedFile, CheckContext, ContentPatternRule } from "../../src/types.js";
+
+function createMockContext(
+  files: ChangedFile[],
+  config: ContentPatternRule["config"],
+  include: string[] = ["src/**"],
+): CheckContext {
+  return {
+    octokit: {} as any,
+    owner: "owner",
+    repo: "repo",
+    rule: {
+      name: "no-debug-code",
+      description: "No debugging leftovers",
+      check_type: "content_pattern" as const,
+      on: {
+        branches: ["main"],
+        paths: { include, exclude: [] },
+      },
+      config,
+    } as ContentPatternRule,
+    pr: {
+      number: 1,
+      headSha: "abc123",
+      baseBranch: "main",
+      baseSha: "base123",
+      changedFiles: files.map((f) => f.filename),
+      files,
+    },
+    logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), child: vi.fn().mockReturnThis() } as any,
+  };
+}
+
+function modified(filename: string, patch: string): ChangedFile {
+  return { filename, status: "modified", additions: 1, deletions: 0, patch };
+}
+
+function added(filename: string, lines: string[]): ChangedFile {
+  return {
+    filename,
+    status: "added",
+    additions: lines.length,
+    deletions: 0,
+    patch: [`@@ -0,0 +1,${lines.length} @@`, ...lines.map((l) => `+${l}`)].join("\n"),
+  };
+}
+
+describe("ContentPatternCheck", () => {
+  const check = new ContentPatternCheck();
+
+  describe("forbidden patterns", () => {
+    it("passes when no added line matches", async () => {
+      const ctx = createMockContext(
+        [modified("src/app.ts", "@@ -1,2 +1,2 @@\n-console.log(a);\n+logger.info(a);\n return;")],
+        { forbidden: [{ pattern: "console\\.log" }] },
+      );
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("success");
+    });
+
+    it("annotates each offending added line", async () => {
+      const ctx = createMockContext(
+        [modified("src/app.ts", "@@ -5,2 +5,4 @@\n const a = 1;\n+console.log(a);\n+debugger;\n return a;")],
+        {
+          forbidden: [
+            { pattern: "console\\.log", message: "Use the logger instead of console.log" },
+            { pattern: "\\bdebugger\\b" },
+          ],
+        },
+      );
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("failure");
+      expect(result.title).toBe("2 content violation(s) found");
+      expect(result.annotations).toEqual([
+        {
+          path: "src/app.ts",
+          startLine: 6,
+          endLine: 6,
+          level: "failure",
+          title: "Forbidden content",
+          message: "Use the logger instead of console.log",
+        },
+        expect.objectContaining({
+          startLine: 7,
+          message: "Line matches the forbidden pattern `\\bdebugger\\b`",
+        }),
+      ]);
+      expect(result.details).toContain("`src/app.ts:6`");
+    });
+
+    it("ignores files that don't match on.paths", async () => {
+      const ctx = createMockContext(
+        [modified("scripts/dev.ts", "@@ -1 +1 @@\n+console.log('dev');")],
+        { forbidden: [{ pattern: "console\\.log" }] },
+      );
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("success");
+    });
+
+    it("reports files without a patch as unscanned", async () => {
+      const ctx = createMockContext(
+        [{ filename: "src/huge.ts", status: "modified", additions: 5000, deletions: 0 }],
+        { forbidden: [{ pattern: "console\\.log" }] },
+      );
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("success");
+      expect(result.summary).toContain("could not be scanned");
+      expect(result.summary).toContain("`src/huge.ts`");
+    });
+  });
+
+  describe("required patterns", () => {
+    const licenseConfig = {
+      required: [{ pattern: "^// SPDX-License-Identifier: ", message: "New files need a license header" }],
+    };
+
+    it("passes when new files contain the required pattern", async () => {
+      const ctx = createMockContext(
+        [added("src/new.ts", ["// SPDX-License-Identifier: MIT", "export {};"])],
+        licenseConfig,
+      );
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("success");
+    });
+
+    it("fails new files missing the required pattern", async () => {
+      const ctx = createMockContext([added("src/new.ts", ["export {};"])], licenseConfig);
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("failure");
+      expect(result.annotations).toEqual([
+        expect.objectContaining({
+          path: "src/new.ts",
+          startLine: 1,
+          title: "Missing required content",
+          message: "New files need a license header",
+        }),
+      ]);
+    });
+
+    it("does not apply required patterns to modified files", async () => {
+      const ctx = createMockContext(
+        [modified("src/old.ts", "@@ -3 +3 @@\n+export const x = 1;")],
+        licenseConfig,
+      );
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("success");
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { FileAbsentCheck } from "../../src/checks/file-absent.js";
+import { clearTreeCache } from "../../src/services/github-trees.js";
+import type { CheckContext, FileAbsentRule } from "../../src/types.js";
+
+function createMockContext(
+  headTreeFiles: string[],
+  config: Partial<FileAbsentRule["config"]> = {},
+  baseTreeFiles: string[] = [],
+  changedFiles: string[] = [],
+): CheckContext {
+  const trees: Record<string, string[]> = { head123: headTreeFiles, base123: baseTreeFiles };
+
+  const octokit = {
+    request: vi.fn().mockImplementation((_route: string, params: any) => {
+      const tree = trees[params.tree_sha].map((path) => ({ path, type: "blob", sha: "a" }));
+      return Promise.resolve({ data: { tree, truncated: false } });
+    }),
+  } as any;
+
+  return {
+    octokit,
+    owner: "owner",
+    repo: "repo",
+    rule: {
+      name: "no-secrets",
+      description: "Secrets and build output must not be committed",
+      check_type: "file_absent" as const,
+      on: {
+        branches: ["main"],
+        paths: { include: ["**/*"], exclude: [] },
+      },
+      config: {
+        forbidden: ["**/.env", "**/*.pem", "**/node_modules/**", "**/*.orig"],
+        allowed: [],
+        introduced_only: false,
+        ...config,
+      },
+    } as FileAbsentRule,
+    pr: {
+      number: 1,
+      headSha: "head123",
+      baseBranch: "main",
+      baseSha: "base123",
+      changedFiles,
+    },
+    logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), child: vi.fn().mockReturnThis() } as any,
+  };
+}
+
+describe("FileAbsentCheck", () => {
+  const check = new FileAbsentCheck();
+
+  beforeEach(() => {
+    clearTreeCache();
+  });
+
+  it("passes when the head tree has no forbidden files", async () => {
+    const ctx = createMockContext(["src/index.ts", ".env.example", "README.md"]);
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("success");
+    expect(result.title).toBe("No forbidden files");
+    // Only the head tree is fetched
+    expect(ctx.octokit.request).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails for forbidden files anywhere in the head tree", async () => {
+    const ctx = createMockContext(
+      ["src/index.ts", "config/.env", "certs/server.pem", "web/node_modules/lodash/index.js", "src/app.ts.orig"],
+      {},
+      [],
+      ["certs/server.pem"],
+    );
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("failure");
+    expect(result.title).toBe("4 forbidden file(s) found");
+    expect(result.details).toContain("- config/.env");
+    expect(result.details).toContain("- web/node_modules/lodash/index.js");
+    expect(result.details).not.toContain("src/index.ts");
+    // Files added in earlier commits are reported but only changed files are annotated
+    expect(result.annotations).toEqual([
+      expect.objectContaining({ path: "certs/server.pem", title: "Forbidden file" }),
+    ]);
+  });
+
+  it("skips files matching allowed patterns", async () => {
+    const ctx = createMockContext(
+      ["test/fixtures/test.pem", "certs/server.pem"],
+      { allowed: ["test/fixtures/**"] },
+    );
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("failure");
+    expect(result.title).toBe("1 forbidden file(s) found");
+    expect(result.details).not.toContain("test/fixtures/test.pem");
+  });
+
+  it("only reports files introduced by the PR with introduced_only", async () => {
+    const ctx = createMockContext(
+      ["legacy/key.pem", "new/key.pem"],
+      { introduced_only: true },
+      ["legacy/key.pem"],
+    );
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("failure");
+    expect(result.title).toBe("1 forbidden file(s) found");
+    expect(result.summary).toContain("introduced by this PR");
+    expect(result.details).toContain("- new/key.pem");
+    expect(result.details).not.toContain("legacy/key.pem");
+  });
+
+  it("passes with introduced_only when forbidden files already exist on base", async () => {
+    const ctx = createMockContext(["legacy/key.pem"], { introduced_only: true }, ["legacy/key.pem"]);
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("success");
+  });
+
+  it("truncates long lists of forbidden files", async () => {
+    const files = Array.from({ length: 60 }, (_, i) => `node_modules/pkg-${i}/index.js`);
+    const ctx = createMockContext(files);
+
+    const result = await check.execute(ctx);
+    expect(result.title).toBe("60 forbidden file(s) found");
+    expect(result.details).toContain("…and 10 more");
+  });
+});
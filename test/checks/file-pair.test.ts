@@ -4,7 +4,11 @@ import type { CheckContext, FilePairRule } from "../../src/types.js";
 
 function createMockContext(
   changedFiles: string[],
-  config: { companion: string | string[]; mode?: "any" | "all" },
+  config: {
+    companion?: string | string[];
+    companion_pattern?: { from: string; to: string | string[] };
+    mode?: "any" | "all";
+  },
   pathsInclude: string[] = ["frontend/package.json"],
 ): CheckContext {
   return {
@@ -19,7 +23,7 @@ function createMockContext(
         branches: ["main"],
         paths: { include: pathsInclude, exclude: [] },
       },
-      config: { mode: config.mode ?? "any", companion: config.companion },
+      config: { ...config, mode: config.mode ?? "any" },
     } as FilePairRule,
     pr: {
       number: 1,
@@ -107,4 +111,104 @@ describe("FilePairCheck", () => {
       expect(result.summary).toContain("RELEASE_NOTES.md");
     });
   });
+
+  it("annotates the files that triggered the rule", async () => {
+    const ctx = createMockContext(
+      ["src/main.ts", "src/util.ts", "docs/guide.md"],
+      { companion: "CHANGELOG.md" },
+      ["src/**"],
+    );
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("failure");
+    expect(result.annotations?.map((a) => a.path)).toEqual(["src/main.ts", "src/util.ts"]);
+    expect(result.annotations?.[0]).toMatchObject({
+      startLine: 1,
+      level: "failure",
+      message: "This change requires updating: CHANGELOG.md",
+    });
+  });
+
+  describe("companion_pattern", () => {
+    const testPattern = { from: "src/{path}/{name}.ts", to: "test/{path}/{name}.test.ts" };
+
+    it("passes when every trigger file has its counterpart changed", async () => {
+      const ctx = createMockContext(
+        ["src/api/users.ts", "test/api/users.test.ts", "src/index.ts", "test/index.test.ts"],
+        { companion_pattern: testPattern },
+        ["src/**"],
+      );
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("success");
+      expect(result.summary).toContain("All 2 file(s)");
+    });
+
+    it("lists each trigger file with its missing counterpart", async () => {
+      const ctx = createMockContext(
+        ["src/api/users.ts", "src/api/roles.ts", "test/api/roles.test.ts", "src/index.ts"],
+        { companion_pattern: testPattern },
+        ["src/**"],
+      );
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("failure");
+      expect(result.title).toBe("Missing companion update for 2 file(s)");
+      expect(result.details).toContain("- `src/api/users.ts` → `test/api/users.test.ts`");
+      expect(result.details).toContain("- `src/index.ts` → `test/index.test.ts`");
+      expect(result.details).not.toContain("roles");
+      expect(result.annotations?.map((a) => a.path)).toEqual(["src/api/users.ts", "src/index.ts"]);
+    });
+
+    it("ignores changed files that don't match the from template", async () => {
+      const ctx = createMockContext(
+        ["src/styles/app.css"],
+        { companion_pattern: testPattern },
+        ["src/**"],
+      );
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("success");
+    });
+
+    it("does not require counterparts for deleted files", async () => {
+      const ctx = createMockContext(
+        ["src/legacy.ts"],
+        { companion_pattern: testPattern },
+        ["src/**"],
+      );
+      ctx.pr.files = [{ filename: "src/legacy.ts", status: "removed", additions: 0, deletions: 12 }];
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("success");
+    });
+
+    it("supports multiple targets with mode: all", async () => {
+      const ctx = createMockContext(
+        ["proto/users.proto", "gen/users.pb.go"],
+        {
+          companion_pattern: { from: "proto/{name}.proto", to: ["gen/{name}.pb.go", "gen/{name}_grpc.pb.go"] },
+          mode: "all",
+        },
+        ["proto/**"],
+      );
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("failure");
+      expect(result.details).toContain("- `proto/users.proto` → `gen/users_grpc.pb.go`");
+    });
+
+    it("accepts any target with mode: any", async () => {
+      const ctx = createMockContext(
+        ["proto/users.proto", "gen/users.pb.go"],
+        {
+          companion_pattern: { from: "proto/{name}.proto", to: ["gen/{name}.pb.go", "gen/{name}_grpc.pb.go"] },
+        },
+        ["proto/**"],
+      );
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("success");
+    });
+  });
 });
@@ -97,6 +97,31 @@ describe("FilePresenceCheck", () => {
     expect(result.details).toContain("20260103_AddRoles.cs");
   });
 
+  it("annotates missing files that this PR deleted", async () => {
+    const ctx = createMockContext(
+      [
+        "Models/Migrations/20260101_Init.cs",
+        "Models/Migrations/20260102_AddUsers.cs",
+        "Models/Migrations/20260103_AddRoles.cs",
+      ],
+      ["Models/Migrations/20260101_Init.cs"],
+    );
+    ctx.pr.files = [
+      { filename: "Models/Migrations/20260102_AddUsers.cs", status: "removed", additions: 0, deletions: 40 },
+    ];
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("failure");
+    // 20260103 was added to base after branching — it isn't in the diff
+    expect(result.annotations).toEqual([
+      expect.objectContaining({
+        path: "Models/Migrations/20260102_AddUsers.cs",
+        level: "failure",
+        title: "File removed",
+      }),
+    ]);
+  });
+
   it("passes when both base and head are empty", async () => {
     const ctx = createMockContext([], []);
 
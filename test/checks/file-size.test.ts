@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { FileSizeCheck } from "../../src/checks/file-size.js";
+import { clearTreeCache, getTreeFiles } from "../../src/services/github-trees.js";
+import type { ChangedFile, CheckContext, FileSizeRule } from "../../src/types.js";
+
+const MB = 1024 * 1024;
+
+type FileChange = Pick<ChangedFile, "filename" | "status"> & Partial<ChangedFile>;
+
+function textFile(filename: string, status: ChangedFile["status"] = "added"): FileChange {
+  return { filename, status, additions: 10, deletions: 0, patch: "@@ -0,0 +1,10 @@" };
+}
+
+function binaryFile(filename: string, status: ChangedFile["status"] = "added"): FileChange {
+  return { filename, status, additions: 0, deletions: 0 };
+}
+
+function createMockContext(
+  headTree: Record<string, number>,
+  files: FileChange[],
+  config: Partial<FileSizeRule["config"]> = {},
+  baseShas: Record<string, string> = {},
+): CheckContext {
+  // Every head blob has SHA "a"; base blobs are listed as path → SHA
+  const trees: Record<string, any[]> = {
+    head123: Object.entries(headTree).map(([path, size]) => ({ path, mode: "100644", type: "blob", sha: "a", size })),
+    base123: Object.entries(baseShas).map(([path, sha]) => ({ path, mode: "100644", type: "blob", sha, size: 1 })),
+  };
+  const changed = files.map((f) => ({ additions: 0, deletions: 0, ...f }));
+
+  const octokit = {
+    request: vi.fn().mockImplementation((_route: string, params: any) =>
+      Promise.resolve({ data: { tree: trees[params.tree_sha], truncated: false } })),
+  } as any;
+
+  return {
+    octokit,
+    owner: "owner",
+    repo: "repo",
+    rule: {
+      name: "file-size",
+      description: "Keep large and binary files out of git",
+      check_type: "file_size" as const,
+      on: {
+        branches: ["main"],
+        paths: { include: ["**/*"], exclude: ["vendor/**"] },
+      },
+      config: {
+        max_bytes: 5 * MB,
+        forbid_binaries: true,
+        allowed_binary_paths: ["docs/images/**"],
+        ...config,
+      },
+    } as FileSizeRule,
+    pr: {
+      number: 1,
+      headSha: "head123",
+      baseBranch: "main",
+      baseSha: "base123",
+      changedFiles: changed.map((f) => f.filename),
+      files: changed,
+    },
+    logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), child: vi.fn().mockReturnThis() } as any,
+  };
+}
+
+describe("FileSizeCheck", () => {
+  const check = new FileSizeCheck();
+
+  beforeEach(() => {
+    clearTreeCache();
+  });
+
+  it("passes when added and modified files are within the limit", async () => {
+    const ctx = createMockContext(
+      { "src/index.ts": 2048, "src/util.ts": 4096, "data/big.json": 50 * MB },
+      [textFile("src/index.ts"), textFile("src/util.ts", "modified")],
+    );
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("success");
+    expect(result.summary).toContain("All 2 added or modified file(s)");
+    expect(ctx.octokit.request).toHaveBeenCalledWith(
+      "GET /repos/{owner}/{repo}/git/trees/{tree_sha}",
+      expect.objectContaining({ tree_sha: "head123" }),
+    );
+  });
+
+  it("fails when a file exceeds max_bytes", async () => {
+    const ctx = createMockContext(
+      { "data/fixtures.json": 12 * MB, "src/index.ts": 100 },
+      [{ ...textFile("data/fixtures.json"), patch: undefined }, textFile("src/index.ts")],
+    );
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("failure");
+    expect(result.title).toBe("Found 1 file(s) over 5.0 MB");
+    expect(result.details).toContain("- data/fixtures.json (12.0 MB)");
+    expect(result.details).toContain("Git LFS");
+    expect(result.annotations).toEqual([
+      expect.objectContaining({ path: "data/fixtures.json", title: "File too large" }),
+    ]);
+  });
+
+  it("ignores removed files, pure renames and excluded paths", async () => {
+    const ctx = createMockContext(
+      { "assets/moved.bin": 20 * MB, "vendor/lib.so": 20 * MB },
+      [
+        binaryFile("assets/old.bin", "removed"),
+        { ...binaryFile("assets/moved.bin", "renamed"), previousFilename: "assets/orig.bin" },
+        binaryFile("vendor/lib.so"),
+      ],
+      {},
+      { "assets/orig.bin": "a" },
+    );
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("success");
+  });
+
+  it("ignores mode-only changes", async () => {
+    const ctx = createMockContext(
+      { "scripts/run.sh": 200 },
+      [binaryFile("scripts/run.sh", "changed")],
+    );
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("success");
+    expect(result.summary).toContain("All 0 added or modified file(s)");
+  });
+
+  it("checks renamed files whose content changed", async () => {
+    const ctx = createMockContext(
+      { "assets/logo-v2.png": 20 * MB },
+      [{ ...binaryFile("assets/logo-v2.png", "renamed"), previousFilename: "assets/logo.png" }],
+      {},
+      { "assets/logo.png": "b" },
+    );
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("failure");
+    expect(result.title).toBe("Found 1 file(s) over 5.0 MB and 1 binary file(s)");
+    expect(ctx.octokit.request).toHaveBeenCalledWith(
+      "GET /repos/{owner}/{repo}/git/trees/{tree_sha}",
+      expect.objectContaining({ tree_sha: "base123" }),
+    );
+  });
+
+  it("fails for binary files outside allowed paths", async () => {
+    const ctx = createMockContext(
+      { "assets/logo.png": 2048, "docs/images/diagram.png": 4096, "empty.txt": 0 },
+      [binaryFile("assets/logo.png"), binaryFile("docs/images/diagram.png"), binaryFile("empty.txt")],
+    );
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("failure");
+    expect(result.title).toBe("Found 1 binary file(s)");
+    expect(result.details).toContain("- assets/logo.png");
+    expect(result.details).not.toContain("diagram.png");
+    expect(result.details).not.toContain("empty.txt");
+    expect(result.annotations![0]).toEqual(expect.objectContaining({ path: "assets/logo.png", title: "Binary file" }));
+  });
+
+  it("allows binary files unless forbid_binaries is set", async () => {
+    const ctx = createMockContext(
+      { "assets/logo.png": 2048 },
+      [binaryFile("assets/logo.png")],
+      { forbid_binaries: false },
+    );
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("success");
+  });
+
+  it("reports large and binary files together", async () => {
+    const ctx = createMockContext(
+      { "assets/video.mp4": 80 * MB },
+      [binaryFile("assets/video.mp4", "modified")],
+    );
+
+    const result = await check.execute(ctx);
+    expect(result.title).toBe("Found 1 file(s) over 5.0 MB and 1 binary file(s)");
+    expect(result.annotations).toHaveLength(1);
+  });
+
+  it("checks sizes without per-file details", async () => {
+    const ctx = createMockContext({ "data/dump.sql": 6 * MB, "src/index.ts": 100 }, []);
+    ctx.pr.files = undefined;
+    ctx.pr.changedFiles = ["data/dump.sql", "src/index.ts", "deleted.txt"];
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("failure");
+    expect(result.title).toBe("Found 1 file(s) over 5.0 MB");
+  });
+});
+
+describe("getTreeFiles", () => {
+  beforeEach(() => {
+    clearTreeCache();
+  });
+
+  it("keeps blob metadata and caches the tree by SHA", async () => {
+    const octokit = {
+      request: vi.fn().mockResolvedValue({
+        data: {
+          truncated: false,
+          tree: [
+            { path: "src", mode: "040000", type: "tree", sha: "t1" },
+            { path: "src/index.ts", mode: "100644", type: "blob", sha: "b1", size: 120 },
+            { path: "bin/run", mode: "120000", type: "blob", sha: "b2", size: 9 },
+          ],
+        },
+      }),
+    } as any;
+
+    const files = await getTreeFiles(octokit, "owner", "repo", "abc");
+    await getTreeFiles(octokit, "owner", "repo", "abc");
+
+    expect(files).toEqual([
+      { path: "src/index.ts", mode: "100644", sha: "b1", size: 120 },
+      { path: "bin/run", mode: "120000", sha: "b2", size: 9 },
+    ]);
+    expect(octokit.request).toHaveBeenCalledTimes(1);
+  });
+});
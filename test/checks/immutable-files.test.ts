@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ImmutableFilesCheck } from "../../src/checks/immutable-files.js";
+import { clearTreeCache } from "../../src/services/github-trees.js";
+import type { ChangedFile, CheckContext, ImmutableFilesRule } from "../../src/types.js";
+
+type FileChange = Pick<ChangedFile, "filename" | "status"> & Partial<ChangedFile>;
+
+function createMockContext(
+  baseTreeFiles: string[],
+  files: FileChange[],
+  rule?: Partial<ImmutableFilesRule>,
+  prBody?: string,
+): CheckContext {
+  const tree = baseTreeFiles.map((path) => ({ path, type: "blob", sha: "a" }));
+  const changed = files.map((f) => ({ additions: 1, deletions: 0, ...f }));
+
+  const octokit = {
+    request: vi.fn().mockResolvedValue({ data: { tree, truncated: false } }),
+  } as any;
+
+  return {
+    octokit,
+    owner: "owner",
+    repo: "repo",
+    rule: {
+      name: "migrations-immutable",
+      description: "Applied migrations must not change",
+      check_type: "immutable_files" as const,
+      on: {
+        branches: ["main"],
+        paths: {
+          include: ["db/migrations/**"],
+          exclude: ["db/migrations/README.md"],
+        },
+      },
+      config: { allow_deletions: false },
+      ...rule,
+    } as ImmutableFilesRule,
+    pr: {
+      number: 1,
+      headSha: "head123",
+      baseBranch: "main",
+      baseSha: "base123",
+      changedFiles: changed.map((f) => f.filename),
+      files: changed,
+      prBody,
+    },
+    logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), child: vi.fn().mockReturnThis() } as any,
+  };
+}
+
+const baseFiles = ["db/migrations/0001_init.sql", "db/migrations/0002_users.sql", "db/migrations/README.md"];
+
+describe("ImmutableFilesCheck", () => {
+  const check = new ImmutableFilesCheck();
+
+  beforeEach(() => {
+    clearTreeCache();
+  });
+
+  it("passes when only new files are added", async () => {
+    const ctx = createMockContext(baseFiles, [
+      { filename: "db/migrations/0003_roles.sql", status: "added" },
+    ]);
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("success");
+    expect(result.title).toBe("No immutable files changed");
+    expect(result.summary).toContain("1 new file(s) added");
+    expect(ctx.octokit.request).toHaveBeenCalledWith(
+      "GET /repos/{owner}/{repo}/git/trees/{tree_sha}",
+      expect.objectContaining({ tree_sha: "base123" }),
+    );
+  });
+
+  it("fails when existing files are modified or deleted", async () => {
+    const ctx = createMockContext(baseFiles, [
+      { filename: "db/migrations/0001_init.sql", status: "modified" },
+      { filename: "db/migrations/0002_users.sql", status: "removed" },
+      { filename: "db/migrations/0003_roles.sql", status: "added" },
+    ]);
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("failure");
+    expect(result.title).toBe("2 immutable file(s) changed");
+    expect(result.details).toContain("- db/migrations/0001_init.sql (modified)");
+    expect(result.details).toContain("- db/migrations/0002_users.sql (removed)");
+    expect(result.annotations).toHaveLength(2);
+    expect(result.annotations![1]).toEqual(expect.objectContaining({
+      path: "db/migrations/0002_users.sql",
+      message: expect.stringContaining("must not be removed"),
+    }));
+  });
+
+  it("fails when an existing file is renamed out of the protected paths", async () => {
+    const ctx = createMockContext(baseFiles, [
+      { filename: "db/archive/0001_init.sql", previousFilename: "db/migrations/0001_init.sql", status: "renamed" },
+    ]);
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("failure");
+    expect(result.details).toContain("- db/migrations/0001_init.sql (renamed to db/archive/0001_init.sql)");
+    expect(result.annotations![0].path).toBe("db/archive/0001_init.sql");
+  });
+
+  it("treats files moved into the protected paths as new", async () => {
+    const ctx = createMockContext([...baseFiles, "tmp/0003_roles.sql"], [
+      { filename: "db/migrations/0003_roles.sql", previousFilename: "tmp/0003_roles.sql", status: "renamed" },
+    ]);
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("success");
+  });
+
+  it("ignores excluded files", async () => {
+    const ctx = createMockContext(baseFiles, [
+      { filename: "db/migrations/README.md", status: "modified" },
+    ]);
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("success");
+  });
+
+  it("allows deletions when allow_deletions is set", async () => {
+    const ctx = createMockContext(
+      baseFiles,
+      [{ filename: "db/migrations/0001_init.sql", status: "removed" }],
+      { config: { allow_deletions: true } },
+    );
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("success");
+  });
+
+  it("passes when every change is allowlisted in the PR description", async () => {
+    const prBody = `Fix typo in an old migration.
+
+<!-- branch-guard:allow
+migrations-immutable: db/migrations/0001_init.sql (comment-only fix)
+-->`;
+    const ctx = createMockContext(
+      baseFiles,
+      [{ filename: "db/migrations/0001_init.sql", status: "modified" }],
+      undefined,
+      prBody,
+    );
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("success");
+    expect(result.title).toBe("No immutable files changed (1 allowed change(s))");
+    expect(result.details).toContain("db/migrations/0001_init.sql (comment-only fix)");
+  });
+
+  it("fails for changes not covered by the allowlist", async () => {
+    const prBody = `<!-- branch-guard:allow
+migrations-immutable: db/migrations/0001_init.sql (comment-only fix)
+other-rule: db/migrations/0002_users.sql
+-->`;
+    const ctx = createMockContext(
+      baseFiles,
+      [
+        { filename: "db/migrations/0001_init.sql", status: "modified" },
+        { filename: "db/migrations/0002_users.sql", status: "modified" },
+      ],
+      undefined,
+      prBody,
+    );
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("failure");
+    expect(result.title).toBe("1 immutable file(s) changed");
+    expect(result.details).toContain("**Allowed changes (via PR description):**");
+  });
+
+  it("treats changed files that exist on base as modified without per-file details", async () => {
+    const ctx = createMockContext(baseFiles, []);
+    ctx.pr.files = undefined;
+    ctx.pr.changedFiles = ["db/migrations/0002_users.sql", "db/migrations/0003_roles.sql"];
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("failure");
+    expect(result.details).toContain("- db/migrations/0002_users.sql (modified)");
+    expect(result.details).not.toContain("0003_roles");
+  });
+});
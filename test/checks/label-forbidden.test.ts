@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from "vitest";
+import { LabelForbiddenCheck } from "../../src/checks/label-forbidden.js";
+import type { CheckContext, LabelForbiddenRule } from "../../src/types.js";
+
+function createMockContext(labels: string[] | undefined, forbidden: string[]): CheckContext {
+  return {
+    octokit: {} as any,
+    owner: "owner",
+    repo: "repo",
+    rule: {
+      name: "do-not-merge",
+      description: "Block merges while do-not-merge is present",
+      check_type: "label_forbidden" as const,
+      on: {
+        branches: ["main"],
+        paths: { include: ["**/*"], exclude: [] },
+      },
+      config: { labels: forbidden },
+    } as LabelForbiddenRule,
+    pr: {
+      number: 1,
+      headSha: "abc123",
+      baseBranch: "main",
+      baseSha: "base123",
+      changedFiles: ["src/app.ts"],
+      labels,
+    },
+    logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), child: vi.fn().mockReturnThis() } as any,
+  };
+}
+
+describe("LabelForbiddenCheck", () => {
+  const check = new LabelForbiddenCheck();
+
+  it("passes when no forbidden label is present", async () => {
+    const ctx = createMockContext(["bug"], ["do-not-merge", "wip"]);
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("success");
+  });
+
+  it("fails and names the blocking labels", async () => {
+    const ctx = createMockContext(["bug", "Do-Not-Merge"], ["do-not-merge", "wip"]);
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("failure");
+    expect(result.title).toBe("Blocked by label(s): do-not-merge");
+  });
+
+  it("passes when labels are unknown", async () => {
+    const ctx = createMockContext(undefined, ["do-not-merge"]);
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("success");
+  });
+});
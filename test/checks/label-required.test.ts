@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from "vitest";
+import { LabelRequiredCheck } from "../../src/checks/label-required.js";
+import type { CheckContext, LabelRequiredRule } from "../../src/types.js";
+
+function createMockContext(
+  labels: string[],
+  config: { labels: string[]; mode?: "any" | "all" },
+): CheckContext {
+  return {
+    octokit: {} as any,
+    owner: "owner",
+    repo: "repo",
+    rule: {
+      name: "semver-label",
+      description: "PR must declare a semver bump",
+      check_type: "label_required" as const,
+      on: {
+        branches: ["main"],
+        paths: { include: ["**/*"], exclude: [] },
+      },
+      config: { mode: config.mode ?? "any", labels: config.labels },
+    } as LabelRequiredRule,
+    pr: {
+      number: 1,
+      headSha: "abc123",
+      baseBranch: "main",
+      baseSha: "base123",
+      changedFiles: ["src/app.ts"],
+      labels,
+    },
+    logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), child: vi.fn().mockReturnThis() } as any,
+  };
+}
+
+describe("LabelRequiredCheck", () => {
+  const check = new LabelRequiredCheck();
+  const semverLabels = ["semver:major", "semver:minor", "semver:patch"];
+
+  describe("mode: any", () => {
+    it("passes when one of the labels is present", async () => {
+      const ctx = createMockContext(["bug", "semver:patch"], { labels: semverLabels });
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("success");
+      expect(result.summary).toContain("semver:patch");
+    });
+
+    it("fails when none of the labels are present", async () => {
+      const ctx = createMockContext(["bug"], { labels: semverLabels });
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("failure");
+      expect(result.title).toBe("Missing required label");
+      expect(result.summary).toContain("at least one of");
+    });
+
+    it("matches labels case-insensitively", async () => {
+      const ctx = createMockContext(["SemVer:Minor"], { labels: semverLabels });
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("success");
+    });
+
+    it("fails when the PR has no labels", async () => {
+      const ctx = createMockContext([], { labels: semverLabels });
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("failure");
+    });
+  });
+
+  describe("mode: all", () => {
+    it("passes when every label is present", async () => {
+      const ctx = createMockContext(["reviewed", "qa-approved"], {
+        labels: ["reviewed", "qa-approved"],
+        mode: "all",
+      });
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("success");
+    });
+
+    it("fails and names the missing labels", async () => {
+      const ctx = createMockContext(["reviewed"], {
+        labels: ["reviewed", "qa-approved"],
+        mode: "all",
+      });
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("failure");
+      expect(result.title).toBe("Missing label(s): qa-approved");
+    });
+  });
+});
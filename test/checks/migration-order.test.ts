@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { MigrationOrderCheck } from "../../src/checks/migration-order.js";
+import { clearTreeCache } from "../../src/services/github-trees.js";
+import type { ChangedFile, CheckContext, MigrationOrderRule } from "../../src/types.js";
+
+function createMockContext(
+  baseTreeFiles: string[],
+  addedFiles: string[],
+  config: Partial<MigrationOrderRule["config"]> = {},
+  include: string[] = ["db/migrations/**"],
+): CheckContext {
+  const tree = baseTreeFiles.map((path) => ({ path, mode: "100644", type: "blob", sha: "a", size: 10 }));
+  const files: ChangedFile[] = addedFiles.map((filename) => ({ filename, status: "added", additions: 5, deletions: 0 }));
+
+  const octokit = {
+    request: vi.fn().mockResolvedValue({ data: { tree, truncated: false } }),
+  } as any;
+
+  return {
+    octokit,
+    owner: "owner",
+    repo: "repo",
+    rule: {
+      name: "migration-order",
+      description: "New migrations must come after existing ones",
+      check_type: "migration_order" as const,
+      on: {
+        branches: ["main"],
+        paths: { include, exclude: ["**/README.md"] },
+      },
+      config: { pattern: "^(\\d+)", per_directory: false, ...config },
+    } as MigrationOrderRule,
+    pr: {
+      number: 1,
+      headSha: "head123",
+      baseBranch: "main",
+      baseSha: "base123",
+      changedFiles: files.map((f) => f.filename),
+      files,
+    },
+    logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), child: vi.fn().mockReturnThis() } as any,
+  };
+}
+
+const baseMigrations = [
+  "db/migrations/0040_add_users.sql",
+  "db/migrations/0041_add_roles.sql",
+  "db/migrations/0042_add_teams.sql",
+  "db/migrations/README.md",
+];
+
+describe("MigrationOrderCheck", () => {
+  const check = new MigrationOrderCheck();
+
+  beforeEach(() => {
+    clearTreeCache();
+  });
+
+  it("passes when new migrations sort after the newest on base", async () => {
+    const ctx = createMockContext(baseMigrations, ["db/migrations/0043_add_billing.sql", "db/migrations/0044_add_invoices.sql"]);
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("success");
+    expect(result.title).toBe("Migrations in order");
+    expect(ctx.octokit.request).toHaveBeenCalledWith(
+      "GET /repos/{owner}/{repo}/git/trees/{tree_sha}",
+      expect.objectContaining({ tree_sha: "base123" }),
+    );
+  });
+
+  it("fails when a new migration duplicates a sequence on base", async () => {
+    const ctx = createMockContext(baseMigrations, ["db/migrations/0042_add_billing.sql"]);
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("failure");
+    expect(result.title).toBe("1 migration(s) out of order");
+    expect(result.details).toContain(
+      "- `db/migrations/0042_add_billing.sql` uses sequence `0042`, which already exists on main (`db/migrations/0042_add_teams.sql`)",
+    );
+    expect(result.annotations).toEqual([
+      expect.objectContaining({ path: "db/migrations/0042_add_billing.sql", title: "Migration out of order" }),
+    ]);
+  });
+
+  it("treats differently padded numbers as the same sequence", async () => {
+    const ctx = createMockContext(baseMigrations, ["db/migrations/42_add_billing.sql"]);
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("failure");
+    expect(result.details).toContain("already exists on main");
+  });
+
+  it("fails when a new migration sorts before the newest on base", async () => {
+    const ctx = createMockContext(
+      ["db/migrations/0040_add_users.sql", "db/migrations/0042_add_teams.sql"],
+      ["db/migrations/0041_add_billing.sql"],
+    );
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("failure");
+    expect(result.details).toContain("sorts before the newest migration on main (`db/migrations/0042_add_teams.sql`)");
+  });
+
+  it("fails when two new migrations share a sequence", async () => {
+    const ctx = createMockContext(baseMigrations, ["db/migrations/0043_add_billing.sql", "db/migrations/0043_add_invoices.sql"]);
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("failure");
+    expect(result.title).toBe("1 migration(s) out of order");
+    expect(result.details).toContain("which `db/migrations/0043_add_billing.sql` in this PR also uses");
+  });
+
+  it("compares timestamps numerically", async () => {
+    const ctx = createMockContext(
+      ["db/migrations/9999_legacy.sql", "db/migrations/20260101120000_init.sql"],
+      ["db/migrations/20260102090000_add_users.sql"],
+    );
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("success");
+  });
+
+  it("extracts the sequence with a custom pattern", async () => {
+    const ctx = createMockContext(
+      ["db/migrations/V1__init.sql", "db/migrations/V2__add_users.sql"],
+      ["db/migrations/V2__add_roles.sql", "db/migrations/R__refresh_views.sql"],
+      { pattern: "^V(\\d+)__" },
+    );
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("failure");
+    expect(result.title).toBe("1 migration(s) out of order");
+    // Repeatable migrations don't match the pattern and are ignored
+    expect(result.details).not.toContain("R__refresh_views");
+  });
+
+  it("scopes sequences to each directory with per_directory", async () => {
+    const base = ["users/migrations/0001_initial.py", "users/migrations/0002_email.py", "billing/migrations/0001_initial.py"];
+    const added = ["billing/migrations/0002_invoices.py"];
+
+    const shared = await check.execute(createMockContext(base, added, {}, ["**/migrations/*.py"]));
+    expect(shared.conclusion).toBe("failure");
+
+    clearTreeCache();
+    const scoped = await check.execute(createMockContext(base, added, { per_directory: true }, ["**/migrations/*.py"]));
+    expect(scoped.conclusion).toBe("success");
+  });
+
+  it("passes when the PR adds no migrations", async () => {
+    const ctx = createMockContext(baseMigrations, ["db/migrations/README.md"]);
+    ctx.pr.files![0].status = "modified";
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("success");
+    expect(result.title).toBe("No new migrations");
+  });
+});
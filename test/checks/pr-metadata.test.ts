@@ -0,0 +1,132 @@
+import { describe, it, expect, vi } from "vitest";
+import { PrMetadataCheck } from "../../src/checks/pr-metadata.js";
+import type { CheckContext, PrMetadataRule } from "../../src/types.js";
+
+function createMockContext(
+  pr: { title?: string; body?: string },
+  config: PrMetadataRule["config"],
+): CheckContext {
+  return {
+    octokit: {} as any,
+    owner: "owner",
+    repo: "repo",
+    rule: {
+      name: "pr-metadata",
+      description: "PR title and body must follow the template",
+      check_type: "pr_metadata" as const,
+      on: {
+        branches: ["main"],
+        paths: { include: ["**/*"], exclude: [] },
+      },
+      config,
+    } as PrMetadataRule,
+    pr: {
+      number: 1,
+      headSha: "abc123",
+      baseBranch: "main",
+      baseSha: "base123",
+      changedFiles: ["src/app.ts"],
+      prTitle: pr.title,
+      prBody: pr.body,
+    },
+    logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), child: vi.fn().mockReturnThis() } as any,
+  };
+}
+
+const templateBody = [
+  "## Summary",
+  "Adds the users endpoint.",
+  "",
+  "## Testing",
+  "Ran the integration suite.",
+].join("\n");
+
+describe("PrMetadataCheck", () => {
+  const check = new PrMetadataCheck();
+
+  describe("title_pattern", () => {
+    it("passes when the title matches", async () => {
+      const ctx = createMockContext({ title: "ABC-123: add users endpoint" }, { title_pattern: "^[A-Z]+-\\d+: " });
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("success");
+    });
+
+    it("fails when the title does not match", async () => {
+      const ctx = createMockContext({ title: "add users endpoint" }, { title_pattern: "^[A-Z]+-\\d+: " });
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("failure");
+      expect(result.summary).toContain("Title `add users endpoint` does not match");
+    });
+  });
+
+  describe("required_sections", () => {
+    it("passes when all sections are present and filled in", async () => {
+      const ctx = createMockContext({ body: templateBody }, { required_sections: ["Summary", "testing"] });
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("success");
+    });
+
+    it("fails when a section is missing", async () => {
+      const ctx = createMockContext(
+        { body: "## Summary\nAdds the users endpoint." },
+        { required_sections: ["Summary", "Testing"] },
+      );
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("failure");
+      expect(result.summary).toContain("Missing section: **Testing**");
+    });
+
+    it("treats a section with only template comments as empty", async () => {
+      const ctx = createMockContext(
+        { body: "## Summary\nAdds it.\n\n## Testing\n<!-- How did you test this? -->\n" },
+        { required_sections: ["Summary", "Testing"] },
+      );
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("failure");
+      expect(result.summary).toContain("Section **Testing** is empty");
+    });
+
+    it("fails when the body is missing entirely", async () => {
+      const ctx = createMockContext({}, { required_sections: ["Summary"] });
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("failure");
+    });
+  });
+
+  describe("min_body_length", () => {
+    it("fails when the description is too short", async () => {
+      const ctx = createMockContext({ body: "fix" }, { min_body_length: 20 });
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("failure");
+      expect(result.summary).toContain("3 character(s) long (minimum: 20)");
+    });
+
+    it("ignores HTML comments when measuring length", async () => {
+      const ctx = createMockContext(
+        { body: "<!-- Describe your change in detail here please -->" },
+        { min_body_length: 10 },
+      );
+
+      const result = await check.execute(ctx);
+      expect(result.conclusion).toBe("failure");
+    });
+  });
+
+  it("reports every problem at once", async () => {
+    const ctx = createMockContext(
+      { title: "wip", body: "" },
+      { title_pattern: "^[A-Z]+-\\d+: ", required_sections: ["Summary"], min_body_length: 10 },
+    );
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("failure");
+    expect(result.title).toContain("3 problem(s)");
+  });
+});
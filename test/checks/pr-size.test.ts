@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from "vitest";
+import { PrSizeCheck } from "../../src/checks/pr-size.js";
+import type { ChangedFile, CheckContext, PrSizeRule } from "../../src/types.js";
+
+function createMockContext(
+  files: ChangedFile[],
+  config: PrSizeRule["config"],
+  exclude: string[] = [],
+): CheckContext {
+  return {
+    octokit: {} as any,
+    owner: "owner",
+    repo: "repo",
+    rule: {
+      name: "pr-size",
+      description: "Keep PRs reviewable",
+      check_type: "pr_size" as const,
+      on: {
+        branches: ["main"],
+        paths: { include: ["**/*"], exclude },
+      },
+      config,
+    } as PrSizeRule,
+    pr: {
+      number: 1,
+      headSha: "abc123",
+      baseBranch: "main",
+      baseSha: "base123",
+      changedFiles: files.map((f) => f.filename),
+      files,
+    },
+    logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), child: vi.fn().mockReturnThis() } as any,
+  };
+}
+
+const files: ChangedFile[] = [
+  { filename: "src/app.ts", status: "modified", additions: 120, deletions: 30 },
+  { filename: "src/util.ts", status: "modified", additions: 40, deletions: 10 },
+  { filename: "package-lock.json", status: "modified", additions: 2000, deletions: 1500 },
+];
+
+describe("PrSizeCheck", () => {
+  const check = new PrSizeCheck();
+
+  it("passes when the PR is within all limits", async () => {
+    const ctx = createMockContext(files, { max_files: 10, max_changes: 5000 });
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("success");
+    expect(result.summary).toContain("3 file(s), +2160 / -1540 line(s)");
+  });
+
+  it("fails when the file count is exceeded", async () => {
+    const ctx = createMockContext(files, { max_files: 2 });
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("failure");
+    expect(result.title).toBe("PR exceeds 1 size limit(s)");
+    expect(result.summary).toContain("Changed files: 3 (limit: 2)");
+  });
+
+  it("reports every exceeded limit", async () => {
+    const ctx = createMockContext(files, {
+      max_additions: 100,
+      max_deletions: 100,
+      max_changes: 1000,
+    });
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("failure");
+    expect(result.title).toBe("PR exceeds 3 size limit(s)");
+    expect(result.summary).toContain("Added lines: 2160 (limit: 100)");
+    expect(result.summary).toContain("Deleted lines: 1540 (limit: 100)");
+    expect(result.summary).toContain("Total changed lines: 3700 (limit: 1000)");
+  });
+
+  it("only counts files that match on.paths", async () => {
+    const ctx = createMockContext(files, { max_changes: 500, max_files: 2 }, ["package-lock.json"]);
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("success");
+    expect(result.summary).toContain("2 file(s), +160 / -40 line(s)");
+  });
+
+  it("treats a limit as inclusive", async () => {
+    const ctx = createMockContext(files.slice(0, 1), { max_additions: 120 });
+
+    const result = await check.execute(ctx);
+    expect(result.conclusion).toBe("success");
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../src/services/config.js", () => ({
+  loadConfig: vi.fn(),
+}));
+
+vi.mock("../../src/services/open-prs.js", () => ({
+  listOpenPrsForCommit: vi.fn(),
+  evaluateOpenPrs: vi.fn(),
+}));
+
+import { loadConfig } from "../../src/services/config.js";
+import { listOpenPrsForCommit, evaluateOpenPrs } from "../../src/services/open-prs.js";
+import { getOverride, clearOverrides } from "../../src/services/overrides.js";
+
+const mockLoadConfig = loadConfig as any;
+const mockListOpenPrsForCommit = listOpenPrsForCommit as any;
+const mockEvaluateOpenPrs = evaluateOpenPrs as any;
+
+const config = {
+  rules: [{ name: "pr-size" }],
+  overrides: { allowed_teams: [], allowed_users: ["alice"] },
+};
+
+describe("check-run handler", () => {
+  const handlers = new Map<string, (context: any) => Promise<void>>();
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    clearOverrides();
+
+    const mod = await import("../../src/handlers/check-run.js");
+    const mockApp = {
+      on: vi.fn((event: string, fn: any) => {
+        handlers.set(event, fn);
+      }),
+    };
+    mod.registerCheckRunHandler(mockApp as any);
+
+    mockLoadConfig.mockResolvedValue({ status: "loaded", config });
+    mockListOpenPrsForCommit.mockResolvedValue([{ number: 42, head: { sha: "abc123" } }]);
+    mockEvaluateOpenPrs.mockResolvedValue([]);
+  });
+
+  describe("requested_action", () => {
+    function createMockContext(options?: { checkName?: string; identifier?: string; sender?: string }) {
+      const { checkName = "branch-guard/pr-size", identifier = "recheck", sender = "alice" } = options ?? {};
+
+      return {
+        payload: {
+          check_run: { name: checkName, head_sha: "abc123" },
+          requested_action: { identifier },
+          sender: { login: sender },
+          repository: { owner: { login: "owner" }, name: "my-repo" },
+        },
+        octokit: { request: vi.fn().mockResolvedValue({ data: {} }) },
+        log: {
+          debug: vi.fn(),
+          info: vi.fn(),
+          warn: vi.fn(),
+          error: vi.fn(),
+          child: vi.fn().mockReturnThis(),
+        },
+      } as any;
+    }
+
+    async function run(context: any) {
+      await handlers.get("check_run.requested_action")!(context);
+    }
+
+    it("re-evaluates only the check's rule", async () => {
+      await run(createMockContext());
+
+      expect(mockListOpenPrsForCommit).toHaveBeenCalledWith(expect.anything(), "owner", "my-repo", "abc123");
+      expect(mockEvaluateOpenPrs).toHaveBeenCalledWith(
+        expect.anything(), "owner", "my-repo", config, [{ number: 42, head: { sha: "abc123" } }], expect.anything(), ["pr-size"],
+      );
+    });
+
+    it("records an override from an allowed user", async () => {
+      await run(createMockContext({ identifier: "override" }));
+
+      expect(getOverride("owner", "my-repo", "abc123", "pr-size")).toEqual(
+        expect.objectContaining({ author: "alice" }),
+      );
+      expect(mockEvaluateOpenPrs).toHaveBeenCalled();
+    });
+
+    it("rejects overrides from other users", async () => {
+      const context = createMockContext({ identifier: "override", sender: "mallory" });
+      await run(context);
+
+      expect(getOverride("owner", "my-repo", "abc123", "pr-size")).toBeUndefined();
+      expect(mockEvaluateOpenPrs).not.toHaveBeenCalled();
+      expect(context.octokit.request).toHaveBeenCalledWith(
+        "POST /repos/{owner}/{repo}/issues/{issue_number}/comments",
+        expect.objectContaining({ issue_number: 42, body: "@mallory is not allowed to override BranchGuard rules." }),
+      );
+    });
+
+    it("ignores checks that don't belong to a rule", async () => {
+      await run(createMockContext({ checkName: "branch-guard/config" }));
+      await run(createMockContext({ checkName: "ci/lint" }));
+
+      expect(mockLoadConfig).not.toHaveBeenCalled();
+    });
+
+    it("ignores rules that are no longer configured", async () => {
+      await run(createMockContext({ checkName: "branch-guard/removed-rule" }));
+
+      expect(mockEvaluateOpenPrs).not.toHaveBeenCalled();
+    });
+
+    it("does nothing when the commit has no open PRs", async () => {
+      mockListOpenPrsForCommit.mockResolvedValue([]);
+
+      await run(createMockContext({ identifier: "override" }));
+
+      expect(getOverride("owner", "my-repo", "abc123", "pr-size")).toBeUndefined();
+      expect(mockEvaluateOpenPrs).not.toHaveBeenCalled();
+    });
+  });
+  describe("rerequested", () => {
+    function createMockContext(checkName = "branch-guard/pr-size") {
+      return {
+        payload: {
+          check_run: { name: checkName, head_sha: "abc123" },
+          repository: { owner: { login: "owner" }, name: "my-repo" },
+        },
+        octokit: { request: vi.fn() },
+        log: {
+          debug: vi.fn(),
+          info: vi.fn(),
+          warn: vi.fn(),
+          error: vi.fn(),
+          child: vi.fn().mockReturnThis(),
+        },
+      } as any;
+    }
+
+    async function run(context: any) {
+      await handlers.get("check_run.rerequested")!(context);
+    }
+
+    it("re-evaluates only the rule behind the check run", async () => {
+      await run(createMockContext());
+
+      expect(mockListOpenPrsForCommit).toHaveBeenCalledWith(expect.anything(), "owner", "my-repo", "abc123");
+      expect(mockEvaluateOpenPrs).toHaveBeenCalledWith(
+        expect.anything(), "owner", "my-repo", config, [{ number: 42, head: { sha: "abc123" } }], expect.anything(), ["pr-size"],
+      );
+    });
+
+    it("ignores other apps' check runs", async () => {
+      await run(createMockContext("ci/lint"));
+
+      expect(mockLoadConfig).not.toHaveBeenCalled();
+      expect(mockEvaluateOpenPrs).not.toHaveBeenCalled();
+    });
+
+    it("skips when the config is invalid", async () => {
+      mockLoadConfig.mockResolvedValue({ status: "invalid", errors: ["bad"] });
+
+      await run(createMockContext());
+
+      expect(mockEvaluateOpenPrs).not.toHaveBeenCalled();
+    });
+
+    it("skips when no open PR has the check's commit as its head", async () => {
+      mockListOpenPrsForCommit.mockResolvedValue([]);
+
+      await run(createMockContext());
+
+      expect(mockEvaluateOpenPrs).not.toHaveBeenCalled();
+    });
+  });
+});
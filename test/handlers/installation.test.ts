@@ -70,7 +70,7 @@ describe("installation handler", () => {
 
   it("evaluates open PRs for a repo with valid config", async () => {
     mockLoadConfig.mockResolvedValue({ status: "loaded", config: validConfig });
-    mockGetPrChangedFiles.mockResolvedValue(["src/index.ts"]);
+    mockGetPrChangedFiles.mockResolvedValue([{ filename: "src/index.ts", status: "modified", additions: 1, deletions: 0 }]);
     mockEvaluateRules.mockResolvedValue(undefined);
 
     const octokit = createMockOctokit([samplePr]);
@@ -153,7 +153,7 @@ describe("installation handler", () => {
       }
       return Promise.resolve({ status: "loaded", config: validConfig });
     });
-    mockGetPrChangedFiles.mockResolvedValue(["src/index.ts"]);
+    mockGetPrChangedFiles.mockResolvedValue([{ filename: "src/index.ts", status: "modified", additions: 1, deletions: 0 }]);
     mockEvaluateRules.mockResolvedValue(undefined);
 
     const octokit = createMockOctokit([samplePr]);
@@ -221,7 +221,7 @@ describe("installation handler", () => {
 
   it("evaluates multiple PRs across multiple repos", async () => {
     mockLoadConfig.mockResolvedValue({ status: "loaded", config: validConfig });
-    mockGetPrChangedFiles.mockResolvedValue(["src/index.ts"]);
+    mockGetPrChangedFiles.mockResolvedValue([{ filename: "src/index.ts", status: "modified", additions: 1, deletions: 0 }]);
     mockEvaluateRules.mockResolvedValue(undefined);
 
     const pr1 = { number: 10, head: { sha: "sha10" }, base: { ref: "main", sha: "base10" } };
@@ -12,16 +12,19 @@ vi.mock("../../src/services/pr-files.js", () => ({
 vi.mock("../../src/services/evaluate.js", () => ({
   evaluateRules: vi.fn(),
   postConfigError: vi.fn(),
+  traceRule: vi.fn(),
 }));
 
 import { loadConfig } from "../../src/services/config.js";
+import { getOverride, clearOverrides } from "../../src/services/overrides.js";
 import { getPrChangedFiles } from "../../src/services/pr-files.js";
-import { evaluateRules, postConfigError } from "../../src/services/evaluate.js";
+import { evaluateRules, postConfigError, traceRule } from "../../src/services/evaluate.js";
 
 const mockLoadConfig = loadConfig as any;
 const mockGetPrChangedFiles = getPrChangedFiles as any;
 const mockEvaluateRules = evaluateRules as any;
 const mockPostConfigError = postConfigError as any;
+const mockTraceRule = traceRule as any;
 
 // We test the handler logic by importing and calling registerIssueCommentHandler
 // with a mock Probot app, then invoking the registered handler.
@@ -31,6 +34,7 @@ describe("issue-comment handler", () => {
 
   beforeEach(async () => {
     vi.clearAllMocks();
+    clearOverrides();
 
     // Dynamically import to pick up mocks
     const mod = await import("../../src/handlers/issue-comment.js");
@@ -49,12 +53,16 @@ describe("issue-comment handler", () => {
     commentBody?: string;
     commentId?: number;
     deleteThrows?: boolean;
+    commenter?: string;
+    teamMembers?: string[];
   }) {
     const {
       isPr = true,
       commentBody = "/recheck",
       commentId = 999,
       deleteThrows = false,
+      commenter = "alice",
+      teamMembers = [],
     } = options ?? {};
 
     return {
@@ -66,6 +74,7 @@ describe("issue-comment handler", () => {
         comment: {
           id: commentId,
           body: commentBody,
+          user: { login: commenter },
         },
         repository: {
           owner: { login: "owner" },
@@ -80,6 +89,15 @@ describe("issue-comment handler", () => {
             }
             return Promise.resolve({ data: {} });
           }
+          if (route === "GET /repos/{owner}/{repo}/commits/{ref}/check-runs") {
+            return Promise.resolve({ data: { check_runs: [] } });
+          }
+          if (route === "GET /orgs/{org}/teams/{team_slug}/memberships/{username}") {
+            if (!teamMembers.includes(params.username)) {
+              return Promise.reject(Object.assign(new Error("Not Found"), { status: 404 }));
+            }
+            return Promise.resolve({ data: { state: "active" } });
+          }
           if (route === "GET /repos/{owner}/{repo}/pulls/{pull_number}") {
             return Promise.resolve({
               data: {
@@ -103,6 +121,18 @@ describe("issue-comment handler", () => {
     } as any;
   }
 
+  function postedComments(context: any): string[] {
+    return context.octokit.request.mock.calls
+      .filter((call: any[]) => call[0] === "POST /repos/{owner}/{repo}/issues/{issue_number}/comments")
+      .map((call: any[]) => call[1].body);
+  }
+
+  function wasDeleted(context: any): boolean {
+    return context.octokit.request.mock.calls.some(
+      (call: any[]) => call[0] === "DELETE /repos/{owner}/{repo}/issues/comments/{comment_id}",
+    );
+  }
+
   it("ignores comments that are not on pull requests", async () => {
     const context = createMockContext({ isPr: false });
     await handler(context);
@@ -128,7 +158,7 @@ describe("issue-comment handler", () => {
 
   it("deletes the /recheck comment before processing", async () => {
     mockLoadConfig.mockResolvedValue({ status: "loaded", config: { rules: [] } });
-    mockGetPrChangedFiles.mockResolvedValue(["src/index.ts"]);
+    mockGetPrChangedFiles.mockResolvedValue([{ filename: "src/index.ts", status: "modified", additions: 1, deletions: 0 }]);
     mockEvaluateRules.mockResolvedValue(undefined);
 
     const context = createMockContext({ commentId: 777 });
@@ -150,7 +180,7 @@ describe("issue-comment handler", () => {
 
   it("continues with recheck even if comment deletion fails", async () => {
     mockLoadConfig.mockResolvedValue({ status: "loaded", config: { rules: [] } });
-    mockGetPrChangedFiles.mockResolvedValue(["src/index.ts"]);
+    mockGetPrChangedFiles.mockResolvedValue([{ filename: "src/index.ts", status: "modified", additions: 1, deletions: 0 }]);
     mockEvaluateRules.mockResolvedValue(undefined);
 
     const context = createMockContext({ deleteThrows: true });
@@ -195,7 +225,7 @@ describe("issue-comment handler", () => {
       status: "loaded",
       config: { rules: [{ name: "test" }] },
     });
-    mockGetPrChangedFiles.mockResolvedValue(["src/file.ts"]);
+    mockGetPrChangedFiles.mockResolvedValue([{ filename: "src/file.ts", status: "modified", additions: 1, deletions: 0 }]);
     mockEvaluateRules.mockResolvedValue(undefined);
 
     const context = createMockContext();
@@ -216,4 +246,234 @@ describe("issue-comment handler", () => {
       }),
     );
   });
+
+  describe("override command", () => {
+    const overrideConfig = {
+      rules: [{ name: "pr-size" }],
+      overrides: { allowed_teams: ["release-managers"], allowed_users: [] },
+    };
+
+    beforeEach(() => {
+      mockGetPrChangedFiles.mockResolvedValue([{ filename: "src/index.ts", status: "modified", additions: 1, deletions: 0 }]);
+      mockEvaluateRules.mockResolvedValue({ shadow: [] });
+    });
+
+    it("records the override and re-evaluates only that rule", async () => {
+      mockLoadConfig.mockResolvedValue({ status: "loaded", config: overrideConfig });
+
+      const context = createMockContext({
+        commentBody: "/branch-guard override pr-size Generated client code",
+        teamMembers: ["alice"],
+      });
+      await handler(context);
+
+      expect(getOverride("owner", "my-repo", "abc123", "pr-size")).toEqual(
+        expect.objectContaining({ author: "alice", reason: "Generated client code" }),
+      );
+      expect(mockEvaluateRules).toHaveBeenCalledWith(expect.objectContaining({ ruleNames: ["pr-size"] }));
+      const reaction = context.octokit.request.mock.calls.find(
+        (call: any[]) => call[0] === "POST /repos/{owner}/{repo}/issues/comments/{comment_id}/reactions",
+      );
+      expect(reaction![1]).toEqual(expect.objectContaining({ comment_id: 999, content: "+1" }));
+    });
+
+    it("keeps the override comment for the audit trail", async () => {
+      mockLoadConfig.mockResolvedValue({ status: "loaded", config: overrideConfig });
+
+      const context = createMockContext({
+        commentBody: "/branch-guard override pr-size Generated client code",
+        teamMembers: ["alice"],
+      });
+      await handler(context);
+
+      expect(wasDeleted(context)).toBe(false);
+    });
+
+    it("rejects users outside the allowed teams", async () => {
+      mockLoadConfig.mockResolvedValue({ status: "loaded", config: overrideConfig });
+
+      const context = createMockContext({
+        commentBody: "/branch-guard override pr-size Trust me",
+        commenter: "mallory",
+      });
+      await handler(context);
+
+      expect(getOverride("owner", "my-repo", "abc123", "pr-size")).toBeUndefined();
+      expect(mockEvaluateRules).not.toHaveBeenCalled();
+      expect(postedComments(context)).toEqual(["@mallory is not allowed to override BranchGuard rules."]);
+    });
+
+    it("rejects everyone when overrides are not configured", async () => {
+      mockLoadConfig.mockResolvedValue({ status: "loaded", config: { rules: [{ name: "pr-size" }] } });
+
+      const context = createMockContext({
+        commentBody: "/branch-guard override pr-size Generated client code",
+        teamMembers: ["alice"],
+      });
+      await handler(context);
+
+      expect(getOverride("owner", "my-repo", "abc123", "pr-size")).toBeUndefined();
+      expect(mockEvaluateRules).not.toHaveBeenCalled();
+    });
+
+    it("replies when the rule does not exist", async () => {
+      mockLoadConfig.mockResolvedValue({ status: "loaded", config: overrideConfig });
+
+      const context = createMockContext({
+        commentBody: "/branch-guard override changelog Not needed",
+        teamMembers: ["alice"],
+      });
+      await handler(context);
+
+      expect(mockEvaluateRules).not.toHaveBeenCalled();
+      expect(postedComments(context)[0]).toContain("No rule named `changelog` is configured");
+    });
+
+    it("replies with usage when the reason is missing", async () => {
+      const context = createMockContext({ commentBody: "/branch-guard override pr-size" });
+      await handler(context);
+
+      expect(mockLoadConfig).not.toHaveBeenCalled();
+      expect(postedComments(context)[0]).toContain("a reason is required");
+    });
+  });
+
+  describe("command grammar", () => {
+    const config = {
+      rules: [
+        { name: "changelog", description: "Update the changelog", check_type: "file_pair", on: { branches: ["main"], paths: { include: ["src/**"], exclude: [] } }, severity: "error" },
+        { name: "release-only", description: "Release rule", check_type: "file_pair", on: { branches: ["release/*"], paths: { include: ["**"], exclude: [] } }, severity: "error" },
+      ],
+    };
+
+    beforeEach(() => {
+      mockGetPrChangedFiles.mockResolvedValue([{ filename: "src/index.ts", status: "modified", additions: 1, deletions: 0 }]);
+      mockEvaluateRules.mockResolvedValue({ shadow: [] });
+    });
+
+    it("rechecks a single rule", async () => {
+      mockLoadConfig.mockResolvedValue({ status: "loaded", config });
+
+      const context = createMockContext({ commentBody: "/branch-guard recheck changelog" });
+      await handler(context);
+
+      expect(mockEvaluateRules).toHaveBeenCalledWith(expect.objectContaining({ ruleNames: ["changelog"] }));
+      expect(wasDeleted(context)).toBe(true);
+    });
+
+    it("replies when rechecking an unknown rule", async () => {
+      mockLoadConfig.mockResolvedValue({ status: "loaded", config });
+
+      const context = createMockContext({ commentBody: "/branch-guard recheck typo" });
+      await handler(context);
+
+      expect(mockEvaluateRules).not.toHaveBeenCalled();
+      expect(postedComments(context)).toEqual([
+        "No rule named `typo` is configured. Configured rules: `changelog`, `release-only`.",
+      ]);
+    });
+
+    it("runs commands found on their own line and keeps the comment", async () => {
+      mockLoadConfig.mockResolvedValue({ status: "loaded", config });
+
+      const context = createMockContext({ commentBody: "Fixed the changelog.\n/recheck\nThanks!" });
+      await handler(context);
+
+      expect(mockEvaluateRules).toHaveBeenCalledTimes(1);
+      expect(wasDeleted(context)).toBe(false);
+    });
+
+    it("loads the config once for several commands", async () => {
+      mockLoadConfig.mockResolvedValue({ status: "loaded", config });
+
+      const context = createMockContext({ commentBody: "/branch-guard recheck changelog\n/branch-guard status" });
+      await handler(context);
+
+      expect(mockLoadConfig).toHaveBeenCalledTimes(1);
+      expect(mockEvaluateRules).toHaveBeenCalledTimes(1);
+      expect(postedComments(context)).toHaveLength(1);
+    });
+
+    it("replies to help without loading the config", async () => {
+      const context = createMockContext({ commentBody: "/branch-guard help" });
+      await handler(context);
+
+      expect(mockLoadConfig).not.toHaveBeenCalled();
+      expect(postedComments(context)[0]).toContain("**BranchGuard commands**");
+    });
+
+    it("answers unknown commands with the valid ones", async () => {
+      const context = createMockContext({ commentBody: "/branch-guard rerun" });
+      await handler(context);
+
+      const [reply] = postedComments(context);
+      expect(reply).toContain("Unknown command `/branch-guard rerun`.");
+      expect(reply).toContain("`/branch-guard status`");
+    });
+
+    it("replies with the status of every rule", async () => {
+      mockLoadConfig.mockResolvedValue({ status: "loaded", config });
+
+      const context = createMockContext({ commentBody: "/branch-guard status" });
+      context.octokit.request.mockImplementation((route: string) => {
+        if (route === "GET /repos/{owner}/{repo}/pulls/{pull_number}") {
+          return Promise.resolve({ data: { number: 42, head: { sha: "abc123" }, base: { ref: "main", sha: "base456" } } });
+        }
+        if (route === "GET /repos/{owner}/{repo}/commits/{ref}/check-runs") {
+          return Promise.resolve({
+            data: {
+              check_runs: [
+                { id: 1, name: "branch-guard/changelog", status: "completed", conclusion: "failure", output: { title: "Missing companion" } },
+                { id: 2, name: "ci/lint", status: "completed", conclusion: "success", output: { title: "Lint" } },
+              ],
+            },
+          });
+        }
+        return Promise.resolve({ data: {} });
+      });
+      await handler(context);
+
+      const [reply] = postedComments(context);
+      expect(reply).toContain("| `changelog` | ❌ Failed | Missing companion |");
+      expect(reply).toContain("| `release-only` | ➖ Skipped | Doesn't apply to base branch `main` |");
+      expect(reply).not.toContain("ci/lint");
+      expect(mockEvaluateRules).not.toHaveBeenCalled();
+    });
+
+    it("explains every rule when no rule is named", async () => {
+      mockLoadConfig.mockResolvedValue({ status: "loaded", config });
+      mockTraceRule.mockImplementation(async (_params: any, rule: any) => ({
+        rule,
+        branch: { name: "main", matched: rule.name === "changelog" },
+        files: [],
+        unmatchedFiles: 1,
+        shadow: false,
+        skipped: rule.name === "changelog" ? undefined : "The base branch doesn't match `on.branches`, so no check run is posted.",
+        result: rule.name === "changelog" ? { conclusion: "failure", title: "Missing companion", summary: "" } : undefined,
+      }));
+
+      const context = createMockContext({ commentBody: "/branch-guard explain" });
+      await handler(context);
+
+      expect(mockTraceRule).toHaveBeenCalledTimes(2);
+      expect(mockTraceRule.mock.calls[0][0].pr.changedFiles).toEqual(["src/index.ts"]);
+      const [reply] = postedComments(context);
+      expect(reply).toContain("#### `changelog` — ❌ Fails");
+      expect(reply).toContain("#### `release-only` — ➖ Skipped");
+    });
+
+    it("explains only the named rule", async () => {
+      mockLoadConfig.mockResolvedValue({ status: "loaded", config });
+      mockTraceRule.mockImplementation(async (_params: any, rule: any) => ({
+        rule, branch: { name: "main", matched: true }, files: [], unmatchedFiles: 0, shadow: false,
+        result: { conclusion: "success", title: "OK", summary: "" },
+      }));
+
+      const context = createMockContext({ commentBody: "/branch-guard explain changelog" });
+      await handler(context);
+
+      expect(mockTraceRule).toHaveBeenCalledTimes(1);
+      expect(mockTraceRule.mock.calls[0][1].name).toBe("changelog");
+    });
+  });
 });
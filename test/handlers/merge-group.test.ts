@@ -0,0 +1,266 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../src/services/config.js", () => ({
+  loadConfig: vi.fn(),
+}));
+
+vi.mock("../../src/services/pr-files.js", () => ({
+  getComparedFiles: vi.fn(),
+}));
+
+vi.mock("../../src/services/evaluate.js", () => ({
+  evaluateRules: vi.fn(),
+  postConfigError: vi.fn(),
+}));
+
+import { loadConfig } from "../../src/services/config.js";
+import { getComparedFiles } from "../../src/services/pr-files.js";
+import { evaluateRules, postConfigError } from "../../src/services/evaluate.js";
+import { registerCheck } from "../../src/checks/index.js";
+import { FilePresenceCheck } from "../../src/checks/file-presence.js";
+import { clearTreeCache } from "../../src/services/github-trees.js";
+import { recordOverride, clearOverrides } from "../../src/services/overrides.js";
+
+const mockLoadConfig = loadConfig as any;
+const mockGetComparedFiles = getComparedFiles as any;
+const mockEvaluateRules = evaluateRules as any;
+const mockPostConfigError = postConfigError as any;
+
+describe("merge-group handler", () => {
+  let handler: (context: any) => Promise<void>;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    const mod = await import("../../src/handlers/merge-group.js");
+    const mockApp = {
+      on: vi.fn((_event: string, fn: any) => {
+        handler = fn;
+      }),
+    };
+    mod.registerMergeGroupHandler(mockApp as any);
+  });
+
+  function createMockContext() {
+    return {
+      payload: {
+        merge_group: {
+          head_sha: "queue123",
+          head_ref: "refs/heads/gh-readonly-queue/main/pr-42-base456",
+          base_sha: "base456",
+          base_ref: "refs/heads/main",
+        },
+        repository: {
+          owner: { login: "owner" },
+          name: "my-repo",
+        },
+      },
+      octokit: {
+        request: vi.fn().mockResolvedValue({
+          data: { number: 42, head: { sha: "pr789" }, body: "Adds billing" },
+        }),
+      },
+      log: {
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        child: vi.fn().mockReturnThis(),
+      },
+    } as any;
+  }
+
+  it("evaluates rules against the files between the queue's base and head", async () => {
+    mockLoadConfig.mockResolvedValue({ status: "loaded", config: { rules: [] } });
+    mockGetComparedFiles.mockResolvedValue([
+      { filename: "src/index.ts", status: "modified", additions: 1, deletions: 0 },
+    ]);
+    mockEvaluateRules.mockResolvedValue({ shadow: [] });
+
+    await handler(createMockContext());
+
+    expect(mockGetComparedFiles).toHaveBeenCalledWith(
+      expect.anything(), "owner", "my-repo", "base456", "queue123", expect.anything(),
+    );
+    const params = mockEvaluateRules.mock.calls[0][0];
+    expect(params.pr).toEqual({
+      headSha: "queue123",
+      baseBranch: "main",
+      baseSha: "base456",
+      changedFiles: ["src/index.ts"],
+      files: [{ filename: "src/index.ts", status: "modified", additions: 1, deletions: 0 }],
+      prBody: "Adds billing",
+      prHeadSha: "pr789",
+    });
+    expect(params.pr.number).toBeUndefined();
+    expect(params.notify).toBe(false);
+  });
+
+  it("fetches the queued PR named by the queue branch", async () => {
+    mockLoadConfig.mockResolvedValue({ status: "loaded", config: { rules: [] } });
+    mockGetComparedFiles.mockResolvedValue([]);
+    mockEvaluateRules.mockResolvedValue({ shadow: [] });
+    const context = createMockContext();
+
+    await handler(context);
+
+    expect(context.octokit.request).toHaveBeenCalledWith(
+      "GET /repos/{owner}/{repo}/pulls/{pull_number}",
+      { owner: "owner", repo: "my-repo", pull_number: 42 },
+    );
+  });
+
+  it("evaluates without the PR when it can't be fetched", async () => {
+    mockLoadConfig.mockResolvedValue({ status: "loaded", config: { rules: [] } });
+    mockGetComparedFiles.mockResolvedValue([]);
+    mockEvaluateRules.mockResolvedValue({ shadow: [] });
+    const context = createMockContext();
+    context.octokit.request.mockRejectedValue(Object.assign(new Error("Not Found"), { status: 404 }));
+
+    await handler(context);
+
+    const params = mockEvaluateRules.mock.calls[0][0];
+    expect(params.pr.prBody).toBeUndefined();
+    expect(params.pr.prHeadSha).toBeUndefined();
+    expect(context.log.warn).toHaveBeenCalled();
+  });
+
+  it("skips evaluation when config is missing", async () => {
+    mockLoadConfig.mockResolvedValue({ status: "missing" });
+
+    await handler(createMockContext());
+
+    expect(mockGetComparedFiles).not.toHaveBeenCalled();
+    expect(mockEvaluateRules).not.toHaveBeenCalled();
+  });
+
+  it("posts the config error on the queue entry's head", async () => {
+    mockLoadConfig.mockResolvedValue({ status: "invalid", errors: ["rules: Required"] });
+
+    await handler(createMockContext());
+
+    expect(mockPostConfigError).toHaveBeenCalledWith(
+      expect.anything(), "owner", "my-repo", "queue123", ["rules: Required"],
+    );
+    expect(mockEvaluateRules).not.toHaveBeenCalled();
+  });
+});
+
+describe("merge-group handler with the queued PR's escape hatches", () => {
+  let handler: (context: any) => Promise<void>;
+
+  const rules = [
+    {
+      name: "migration-sync",
+      description: "Keep base migrations",
+      check_type: "file_presence",
+      on: { branches: ["main"], paths: { include: ["db/**"], exclude: [] } },
+      config: { mode: "base_subset_of_head" },
+      severity: "error",
+      mode: "enforce",
+    },
+    {
+      name: "hotfix",
+      description: "Overridden on the PR",
+      check_type: "file_presence",
+      on: { branches: ["main"], paths: { include: ["src/**"], exclude: [] } },
+      config: { mode: "base_subset_of_head" },
+      severity: "error",
+      mode: "enforce",
+    },
+  ];
+
+  // Base has both files; the queue entry deletes them
+  const trees: Record<string, string[]> = {
+    base456: ["db/001_old.sql", "src/legacy.ts"],
+    queue123: [],
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    clearTreeCache();
+    clearOverrides();
+    registerCheck(new FilePresenceCheck());
+
+    const actual = await vi.importActual<typeof import("../../src/services/evaluate.js")>("../../src/services/evaluate.js");
+    mockEvaluateRules.mockImplementation(actual.evaluateRules);
+    mockLoadConfig.mockResolvedValue({ status: "loaded", config: { rules } });
+    mockGetComparedFiles.mockResolvedValue([
+      { filename: "db/001_old.sql", status: "removed", additions: 0, deletions: 3 },
+      { filename: "src/legacy.ts", status: "removed", additions: 0, deletions: 10 },
+    ]);
+
+    const mod = await import("../../src/handlers/merge-group.js");
+    const mockApp = {
+      on: vi.fn((_event: string, fn: any) => {
+        handler = fn;
+      }),
+    };
+    mod.registerMergeGroupHandler(mockApp as any);
+  });
+
+  function createMockOctokit() {
+    return {
+      request: vi.fn().mockImplementation((url: string, params: any) => {
+        if (url === "GET /repos/{owner}/{repo}/pulls/{pull_number}") {
+          return Promise.resolve({
+            data: {
+              number: 42,
+              head: { sha: "pr789" },
+              body: "<!-- branch-guard:allow\nmigration-sync: db/001_old.sql (squashed)\n-->",
+            },
+          });
+        }
+        if (url === "GET /repos/{owner}/{repo}/git/trees/{tree_sha}") {
+          const tree = trees[params.tree_sha].map((path) => ({ path, type: "blob", sha: "a" }));
+          return Promise.resolve({ data: { tree, truncated: false } });
+        }
+        if (url.includes("check-runs") && url.startsWith("GET")) {
+          return Promise.resolve({ data: { check_runs: [] } });
+        }
+        if (url.startsWith("POST")) {
+          return Promise.resolve({ data: { id: 100 } });
+        }
+        return Promise.resolve({ data: {} });
+      }),
+    };
+  }
+
+  it("applies the PR's allowlist and overrides to the queue entry", async () => {
+    recordOverride({
+      owner: "owner",
+      repo: "my-repo",
+      headSha: "pr789",
+      ruleName: "hotfix",
+      author: "lead",
+      reason: "Incident fix",
+      createdAt: Date.now(),
+    });
+    const octokit = createMockOctokit();
+    const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn(), child: vi.fn().mockReturnThis() };
+
+    await handler({
+      payload: {
+        merge_group: {
+          head_sha: "queue123",
+          head_ref: "refs/heads/gh-readonly-queue/main/pr-42-base456",
+          base_sha: "base456",
+          base_ref: "refs/heads/main",
+        },
+        repository: { owner: { login: "owner" }, name: "my-repo" },
+      },
+      octokit,
+      log: logger,
+    });
+
+    const conclusions = octokit.request.mock.calls
+      .filter(([, params]: any[]) => params?.conclusion)
+      .map(([, params]: any[]) => [params.name ?? params.check_run_id, params.conclusion, params.output?.title]);
+
+    expect(conclusions).toEqual(expect.arrayContaining([
+      ["branch-guard/hotfix", "success", expect.stringContaining("Overridden")],
+      [100, "success", "All files in sync (1 allowed deletion(s))"],
+    ]));
+    expect(conclusions.filter(([, conclusion]) => conclusion !== "success")).toEqual([]);
+  });
+});
@@ -1,5 +1,17 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 
+vi.mock("../../src/services/open-prs.js", () => ({
+  listOpenPrs: vi.fn(),
+  evaluateOpenPrs: vi.fn(),
+}));
+
+import { listOpenPrs, evaluateOpenPrs } from "../../src/services/open-prs.js";
+import { registerPushHandler } from "../../src/handlers/push.js";
+import { clearConfigCache } from "../../src/services/config.js";
+
+const mockListOpenPrs = listOpenPrs as any;
+const mockEvaluateOpenPrs = evaluateOpenPrs as any;
+
 // We test the push handler logic by testing the extractPushedFiles behavior
 // and the overall flow through mocked dependencies.
 // Since the handler is tightly coupled to Probot context, we test the
@@ -94,3 +106,107 @@ describe("push handler logic", () => {
     });
   });
 });
+
+describe("push handler config changes", () => {
+  let handler: (context: any) => Promise<void>;
+
+  const enforcedRule = `
+  - name: changelog
+    description: "Changelog required"
+    check_type: file_pair
+    on:
+      branches: [main]
+      paths:
+        include: ["src/**"]
+    config:
+      companion: CHANGELOG.md
+`;
+  const shadowRule = `
+  - name: new-shadow
+    description: "Trialled before enforcing"
+    mode: shadow
+    check_type: file_pair
+    on:
+      branches: [main]
+      paths:
+        include: ["lib/**"]
+    config:
+      companion: CHANGELOG.md
+`;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearConfigCache();
+    mockListOpenPrs.mockResolvedValue([{ number: 7 }]);
+    mockEvaluateOpenPrs.mockResolvedValue([]);
+
+    const mockApp = {
+      on: vi.fn((_event: string, fn: any) => {
+        handler = fn;
+      }),
+    };
+    registerPushHandler(mockApp as any);
+  });
+
+  function createMockContext() {
+    // The default branch still serves the config from before the push
+    const configs: Record<string, string> = {
+      default: `rules:${enforcedRule}`,
+      after123: `rules:${enforcedRule}${shadowRule}`,
+    };
+
+    return {
+      payload: {
+        ref: "refs/heads/main",
+        after: "after123",
+        commits: [{ added: [], modified: [".github/branch-guard.yml"], removed: [] }],
+        repository: { owner: { login: "owner" }, name: "repo", default_branch: "main" },
+      },
+      octokit: {
+        request: vi.fn().mockImplementation((route: string, params: any) => {
+          if (route === "GET /repos/{owner}/{repo}/contents/{path}") {
+            const content = Buffer.from(configs[params.ref ?? "default"]).toString("base64");
+            return Promise.resolve({ data: { type: "file", content } });
+          }
+          return Promise.resolve({ data: [] });
+        }),
+      },
+      log: {
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        child: vi.fn().mockReturnThis(),
+      },
+    };
+  }
+
+  it("dry-runs a shadow rule added by the pushed config", async () => {
+    const context = createMockContext();
+
+    await handler(context);
+
+    expect(context.octokit.request).toHaveBeenCalledWith(
+      "GET /repos/{owner}/{repo}/contents/{path}",
+      expect.objectContaining({ ref: "after123" }),
+    );
+    expect(mockEvaluateOpenPrs).toHaveBeenCalledWith(
+      expect.anything(),
+      "owner",
+      "repo",
+      expect.objectContaining({ rules: expect.arrayContaining([expect.objectContaining({ name: "new-shadow" })]) }),
+      [{ number: 7 }],
+      expect.anything(),
+      ["new-shadow"],
+    );
+  });
+
+  it("skips the dry run when the config wasn't changed", async () => {
+    const context = createMockContext();
+    context.payload.commits = [{ added: [], modified: ["src/index.ts"], removed: [] }];
+
+    await handler(context);
+
+    expect(mockEvaluateOpenPrs).not.toHaveBeenCalled();
+  });
+});
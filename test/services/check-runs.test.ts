@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from "vitest";
-import { createCheckRun, updateCheckRun, findCheckRun } from "../../src/services/check-runs.js";
+import { createCheckRun, updateCheckRun, findCheckRun, listCheckRuns, ruleCheckActions } from "../../src/services/check-runs.js";
 
 function createMockOctokit(responseData: any = {}) {
   return {
@@ -7,6 +7,16 @@ function createMockOctokit(responseData: any = {}) {
   } as any;
 }
 
+function makeAnnotations(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    path: "src/app.ts",
+    startLine: i + 1,
+    endLine: i + 1,
+    level: "failure" as const,
+    message: `Problem ${i}`,
+  }));
+}
+
 describe("createCheckRun", () => {
   it("creates a check run with correct parameters", async () => {
     const octokit = createMockOctokit({ id: 123 });
@@ -104,6 +114,85 @@ describe("updateCheckRun", () => {
       }),
     );
   });
+
+  it("converts annotations to the API format", async () => {
+    const octokit = createMockOctokit();
+
+    await updateCheckRun(octokit, {
+      owner: "owner",
+      repo: "repo",
+      checkRunId: 123,
+      status: "completed",
+      conclusion: "failure",
+      output: {
+        title: "Problems",
+        summary: "Found problems",
+        annotations: [
+          { path: "src/app.ts", startLine: 3, endLine: 4, level: "warning", message: "Problem", title: "Heads up" },
+        ],
+      },
+    });
+
+    expect(octokit.request).toHaveBeenCalledTimes(1);
+    expect(octokit.request.mock.calls[0][1].output.annotations).toEqual([
+      {
+        path: "src/app.ts",
+        start_line: 3,
+        end_line: 4,
+        annotation_level: "warning",
+        message: "Problem",
+        title: "Heads up",
+      },
+    ]);
+  });
+
+  it("sends annotations in batches of 50", async () => {
+    const octokit = createMockOctokit();
+
+    await updateCheckRun(octokit, {
+      owner: "owner",
+      repo: "repo",
+      checkRunId: 123,
+      status: "completed",
+      conclusion: "failure",
+      output: { title: "Problems", summary: "Found problems", annotations: makeAnnotations(120) },
+    });
+
+    expect(octokit.request).toHaveBeenCalledTimes(3);
+    const calls = octokit.request.mock.calls;
+    expect(calls[0][1].status).toBe("completed");
+    expect(calls[0][1].output.annotations).toHaveLength(50);
+    expect(calls[1][1].output.annotations).toHaveLength(50);
+    expect(calls[2][1].output.annotations).toHaveLength(20);
+    expect(calls[2][1].output.annotations[19].message).toBe("Problem 119");
+    // Follow-up batches only append annotations
+    expect(calls[1][1].status).toBeUndefined();
+    expect(calls[1][1].output.title).toBe("Problems");
+  });
+});
+
+describe("createCheckRun annotations", () => {
+  it("appends annotations beyond the first 50 to the created check run", async () => {
+    const octokit = createMockOctokit({ id: 321 });
+
+    await createCheckRun(octokit, {
+      owner: "owner",
+      repo: "repo",
+      headSha: "abc123",
+      name: "branch-guard/test",
+      status: "completed",
+      conclusion: "failure",
+      output: { title: "Problems", summary: "Found problems", annotations: makeAnnotations(60) },
+    });
+
+    expect(octokit.request).toHaveBeenCalledTimes(2);
+    expect(octokit.request.mock.calls[0][1].output.annotations).toHaveLength(50);
+    expect(octokit.request).toHaveBeenLastCalledWith(
+      "PATCH /repos/{owner}/{repo}/check-runs/{check_run_id}",
+      expect.objectContaining({ check_run_id: 321 }),
+    );
+    expect(octokit.request.mock.calls[1][1].output.annotations).toHaveLength(10);
+  });
 });
 
 describe("findCheckRun", () => {
@@ -130,3 +219,48 @@ describe("findCheckRun", () => {
     expect(result).toBeNull();
   });
 });
+
+describe("listCheckRuns", () => {
+  it("returns only check runs with the given name prefix", async () => {
+    const octokit = createMockOctokit({
+      check_runs: [
+        { id: 1, name: "branch-guard/test", status: "completed", conclusion: "success" },
+        { id: 2, name: "ci/lint", status: "completed", conclusion: "success" },
+      ],
+    });
+
+    const result = await listCheckRuns(octokit, "owner", "repo", "abc123", "branch-guard/");
+    expect(result.map((run) => run.id)).toEqual([1]);
+  });
+});
+
+describe("ruleCheckActions", () => {
+  it("offers a re-run on every check and an override on failing ones", () => {
+    expect(ruleCheckActions("success").map((a) => a.identifier)).toEqual(["recheck"]);
+    expect(ruleCheckActions("neutral").map((a) => a.identifier)).toEqual(["recheck"]);
+    expect(ruleCheckActions("failure").map((a) => a.identifier)).toEqual(["recheck", "override"]);
+  });
+
+  it("keeps labels and descriptions within GitHub's limits", () => {
+    for (const action of ruleCheckActions("failure")) {
+      expect(action.label.length).toBeLessThanOrEqual(20);
+      expect(action.description.length).toBeLessThanOrEqual(40);
+      expect(action.identifier.length).toBeLessThanOrEqual(20);
+    }
+  });
+
+  it("sends actions with the check run", async () => {
+    const octokit = createMockOctokit({ id: 1 });
+
+    await updateCheckRun(octokit, {
+      owner: "owner",
+      repo: "repo",
+      checkRunId: 1,
+      status: "completed",
+      conclusion: "failure",
+      actions: ruleCheckActions("failure"),
+    });
+
+    expect(octokit.request.mock.calls[0][1].actions).toHaveLength(2);
+  });
+});
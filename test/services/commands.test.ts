@@ -0,0 +1,170 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseCommands,
+  isCommandOnly,
+  buildStatusReply,
+  buildExplainReply,
+  buildUnknownCommandReply,
+} from "../../src/services/commands.js";
+import type { Rule } from "../../src/types.js";
+
+describe("parseCommands", () => {
+  it("parses recheck commands case-insensitively", () => {
+    expect(parseCommands("/recheck")).toEqual([{ type: "recheck" }]);
+    expect(parseCommands("  /Branch-Guard Recheck \n")).toEqual([{ type: "recheck" }]);
+  });
+
+  it("parses a recheck of a single rule", () => {
+    expect(parseCommands("/branch-guard recheck PR-Size")).toEqual([{ type: "recheck", ruleName: "pr-size" }]);
+  });
+
+  it("parses help, status and explain", () => {
+    expect(parseCommands("/branch-guard help")).toEqual([{ type: "help" }]);
+    expect(parseCommands("/branch-guard")).toEqual([{ type: "help" }]);
+    expect(parseCommands("/branch-guard status")).toEqual([{ type: "status" }]);
+    expect(parseCommands("/branch-guard explain changelog")).toEqual([{ type: "explain", ruleName: "changelog" }]);
+    expect(parseCommands("/branch-guard explain")).toEqual([{ type: "explain", ruleName: undefined }]);
+  });
+
+  it("parses an override with its reason", () => {
+    expect(parseCommands("/branch-guard override pr-size Generated client, reviewed offline")).toEqual([{
+      type: "override",
+      ruleName: "pr-size",
+      reason: "Generated client, reviewed offline",
+    }]);
+  });
+
+  it("returns empty fields for an incomplete override", () => {
+    expect(parseCommands("/branch-guard override pr-size")).toEqual([{ type: "override", ruleName: "pr-size", reason: "" }]);
+    expect(parseCommands("/branch-guard override")).toEqual([{ type: "override", ruleName: "", reason: "" }]);
+  });
+
+  it("returns unknown commands by name", () => {
+    expect(parseCommands("/branch-guard overrides pr-size because")).toEqual([{ type: "unknown", name: "overrides" }]);
+  });
+
+  it("finds commands on their own line in a longer comment", () => {
+    const body = [
+      "Thanks for the review!",
+      "",
+      "/branch-guard recheck changelog",
+      "Also checking where things stand:",
+      "/branch-guard status",
+    ].join("\n");
+
+    expect(parseCommands(body)).toEqual([
+      { type: "recheck", ruleName: "changelog" },
+      { type: "status" },
+    ]);
+  });
+
+  it("ignores commands that aren't at the start of a line", () => {
+    expect(parseCommands("looks good to me")).toEqual([]);
+    expect(parseCommands("please /recheck")).toEqual([]);
+    expect(parseCommands("> /branch-guard status")).toEqual([]);
+  });
+});
+
+describe("isCommandOnly", () => {
+  it("is true for a comment holding a single command", () => {
+    expect(isCommandOnly("\n/recheck\n")).toBe(true);
+  });
+
+  it("is false when the comment has other text", () => {
+    expect(isCommandOnly("Rechecking now\n/recheck")).toBe(false);
+  });
+});
+
+const rule = {
+  name: "changelog",
+  description: "CHANGELOG.md must be updated",
+  check_type: "file_pair",
+  on: {
+    branches: ["main"],
+    paths: { include: ["src/**"], exclude: ["src/**/*.test.ts"] },
+    labels: { include: ["release"], exclude: [] },
+  },
+  config: { companion: "CHANGELOG.md", mode: "any" },
+  notify: true,
+  severity: "warning",
+  mode: "enforce",
+} as Rule;
+
+describe("buildStatusReply", () => {
+  it("lists every rule with its latest result", () => {
+    const reply = buildStatusReply(
+      [rule, { ...rule, name: "pr-size" }, { ...rule, name: "lint" }, { ...rule, name: "legacy" }] as Rule[],
+      [
+        { id: 1, name: "branch-guard/changelog", status: "completed", conclusion: "failure", output: { title: "Missing companion" } },
+        { id: 2, name: "branch-guard/pr-size", status: "in_progress", conclusion: null },
+      ],
+      new Map([["legacy", "Doesn't apply to base branch `main`"]]),
+    );
+
+    expect(reply).toContain("| `changelog` | ❌ Failed | Missing companion |");
+    expect(reply).toContain("| `pr-size` | ⏳ In progress |  |");
+    expect(reply).toContain("| `lint` | ⏳ Not reported |  |");
+    expect(reply).toContain("| `legacy` | ➖ Skipped | Doesn't apply to base branch `main` |");
+  });
+});
+
+describe("buildExplainReply", () => {
+  it("shows the conditions, file matches and check outcome", () => {
+    const reply = buildExplainReply([{
+      rule,
+      branch: { name: "main", matched: true },
+      labels: { present: ["release"], matched: true },
+      files: [
+        { path: "src/app.ts", include: "src/**" },
+        { path: "src/app.test.ts", include: "src/**", exclude: "src/**/*.test.ts" },
+      ],
+      unmatchedFiles: 3,
+      shadow: false,
+      result: { conclusion: "neutral", title: "Missing companion", summary: "" },
+    }]);
+
+    expect(reply).toContain("#### `changelog` — ⚠️ Neutral");
+    expect(reply).toContain("- **Base branch:** `main` matches `main`");
+    expect(reply).toContain("- **Labels:** conditions met (PR labels: `release`)");
+    expect(reply).toContain("- **Files:** 1 included, 1 excluded, 3 not matched by `src/**`");
+    expect(reply).toContain("  - `src/app.test.ts` — included by `src/**`, excluded by `src/**/*.test.ts`");
+    expect(reply).toContain("- **Check (`file_pair`):** neutral — Missing companion");
+  });
+
+  it("explains why a rule was skipped", () => {
+    const reply = buildExplainReply([{
+      rule,
+      branch: { name: "develop", matched: false },
+      files: [],
+      unmatchedFiles: 2,
+      shadow: true,
+      skipped: "The base branch doesn't match `on.branches`, so no check run is posted.",
+    }]);
+
+    expect(reply).toContain("#### `changelog` — ➖ Skipped (shadow mode)");
+    expect(reply).toContain("- **Base branch:** `develop` doesn't match `main`");
+    expect(reply).toContain("not run — The base branch doesn't match");
+  });
+
+  it("truncates long file lists", () => {
+    const files = Array.from({ length: 25 }, (_, i) => ({ path: `src/file${i}.ts`, include: "src/**" }));
+    const reply = buildExplainReply([{
+      rule, branch: { name: "main", matched: true }, files, unmatchedFiles: 0, shadow: false,
+      result: { conclusion: "success", title: "OK", summary: "" },
+    }]);
+
+    expect(reply).toContain("`src/file19.ts`");
+    expect(reply).not.toContain("`src/file20.ts`");
+    expect(reply).toContain("  - …and 5 more");
+  });
+});
+
+describe("buildUnknownCommandReply", () => {
+  it("lists the valid commands", () => {
+    const reply = buildUnknownCommandReply("rerun");
+
+    expect(reply).toContain("Unknown command `/branch-guard rerun`.");
+    expect(reply).toContain("`/branch-guard recheck <rule>`");
+    expect(reply).toContain("`/branch-guard help`");
+  });
+});
@@ -172,6 +172,18 @@ describe("loadConfig", () => {
     expect(result.status).toBe("invalid");
   });
 
+  it("returns invalid for reserved rule names", async () => {
+    const octokit = createMockOctokit({
+      data: { type: "file", content: yamlToBase64(invalidRuleName.replace("INVALID_NAME", "shadow")) },
+    });
+
+    const result = await loadConfig(octokit, "owner", "repo");
+    expect(result.status).toBe("invalid");
+    if (result.status === "invalid") {
+      expect(result.errors.join("\n")).toContain("reserved names: config, shadow");
+    }
+  });
+
   it("returns invalid when branches array is empty", async () => {
     const octokit = createMockOctokit({
       data: { type: "file", content: yamlToBase64(missingBranches) },
@@ -181,6 +193,49 @@ describe("loadConfig", () => {
     expect(result.status).toBe("invalid");
   });
 
+  it("loads path status filters and rejects unknown statuses", async () => {
+    const withStatuses = (statuses: string) => validConfig.replace(
+      '          - "**/Migrations/**/*.cs"\n',
+      `          - "**/Migrations/**/*.cs"\n        statuses: ${statuses}\n`,
+    );
+
+    const loaded = await loadConfig(createMockOctokit({
+      data: { type: "file", content: yamlToBase64(withStatuses("[added, renamed]")) },
+    }), "owner", "repo");
+    expect(loaded.status).toBe("loaded");
+    if (loaded.status === "loaded") {
+      expect(loaded.config.rules[0].on.paths.statuses).toEqual(["added", "renamed"]);
+    }
+
+    clearConfigCache();
+    const invalid = await loadConfig(createMockOctokit({
+      data: { type: "file", content: yamlToBase64(withStatuses("[copied]")) },
+    }), "owner", "repo");
+    expect(invalid.status).toBe("invalid");
+  });
+
+  it("loads an immutable_files rule without a config block", async () => {
+    const immutable = `
+rules:
+  - name: migrations-immutable
+    description: "Applied migrations must never be edited"
+    check_type: immutable_files
+    on:
+      branches: [main]
+      paths:
+        include: ["db/migrations/**"]
+`;
+    const octokit = createMockOctokit({
+      data: { type: "file", content: yamlToBase64(immutable) },
+    });
+
+    const result = await loadConfig(octokit, "owner", "repo");
+    expect(result.status).toBe("loaded");
+    if (result.status === "loaded" && result.config.rules[0].check_type === "immutable_files") {
+      expect(result.config.rules[0].config).toEqual({ allow_deletions: false });
+    }
+  });
+
   it("returns invalid for unknown check_type", async () => {
     const octokit = createMockOctokit({
       data: { type: "file", content: yamlToBase64(wrongCheckType) },
@@ -210,6 +265,27 @@ describe("loadConfig", () => {
     expect(octokit.request).toHaveBeenCalledTimes(1);
   });
 
+  it("loads the config at each requested ref", async () => {
+    const octokit = {
+      request: vi.fn().mockImplementation((_route: string, params: any) => {
+        const yaml = params.ref === "abc123"
+          ? validConfig.replace("migration-sync", "migration-sync-v2")
+          : validConfig;
+        return Promise.resolve({ data: { type: "file", content: yamlToBase64(yaml) } });
+      }),
+    } as any;
+
+    const atDefault = await loadConfig(octokit, "owner", "repo");
+    const atRef = await loadConfig(octokit, "owner", "repo", "abc123");
+
+    expect(atDefault.status === "loaded" && atDefault.config.rules[0].name).toBe("migration-sync");
+    expect(atRef.status === "loaded" && atRef.config.rules[0].name).toBe("migration-sync-v2");
+    expect(octokit.request).toHaveBeenCalledWith(
+      "GET /repos/{owner}/{repo}/contents/{path}",
+      expect.objectContaining({ ref: "abc123" }),
+    );
+  });
+
   it("loads and parses a valid branch_age config", async () => {
     const branchAgeConfig = `
 rules:
@@ -492,6 +568,194 @@ rules:
     }
   });
 
+  it("loads a valid commit_message config with the conventional preset", async () => {
+    const commitMessageConfig = `
+rules:
+  - name: commit-convention
+    description: "Commits must follow Conventional Commits"
+    check_type: commit_message
+    on:
+      branches: [main]
+      paths:
+        include: ["**/*"]
+    config:
+      preset: conventional
+`;
+    const octokit = createMockOctokit({
+      data: { type: "file", content: yamlToBase64(commitMessageConfig) },
+    });
+
+    const result = await loadConfig(octokit, "owner", "repo");
+    expect(result.status).toBe("loaded");
+    if (result.status === "loaded") {
+      expect(result.config.rules[0].config).toEqual({
+        preset: "conventional",
+        ignore_merge_commits: true,
+        ignore_fixup_commits: false,
+      });
+    }
+  });
+
+  it("returns invalid when commit_message has neither pattern nor preset", async () => {
+    const commitMessageConfig = `
+rules:
+  - name: commit-convention
+    description: "Missing pattern"
+    check_type: commit_message
+    on:
+      branches: [main]
+      paths:
+        include: ["**/*"]
+    config:
+      ignore_merge_commits: true
+`;
+    const octokit = createMockOctokit({
+      data: { type: "file", content: yamlToBase64(commitMessageConfig) },
+    });
+
+    const result = await loadConfig(octokit, "owner", "repo");
+    expect(result.status).toBe("invalid");
+  });
+
+  it("returns invalid when commit_message pattern is not a valid regex", async () => {
+    const commitMessageConfig = `
+rules:
+  - name: commit-convention
+    description: "Bad pattern"
+    check_type: commit_message
+    on:
+      branches: [main]
+      paths:
+        include: ["**/*"]
+    config:
+      pattern: "^(unclosed"
+`;
+    const octokit = createMockOctokit({
+      data: { type: "file", content: yamlToBase64(commitMessageConfig) },
+    });
+
+    const result = await loadConfig(octokit, "owner", "repo");
+    expect(result.status).toBe("invalid");
+    if (result.status === "invalid") {
+      expect(result.errors.join("\n")).toContain("valid regular expression");
+    }
+  });
+
+  it("returns invalid when pr_size has no limits", async () => {
+    const prSizeConfig = `
+rules:
+  - name: pr-size
+    description: "No limits"
+    check_type: pr_size
+    on:
+      branches: [main]
+      paths:
+        include: ["**/*"]
+    config: {}
+`;
+    const octokit = createMockOctokit({
+      data: { type: "file", content: yamlToBase64(prSizeConfig) },
+    });
+
+    const result = await loadConfig(octokit, "owner", "repo");
+    expect(result.status).toBe("invalid");
+  });
+
+  it("returns invalid when a content_pattern pattern is not a valid regex", async () => {
+    const contentPatternConfig = `
+rules:
+  - name: no-debug-code
+    description: "Bad pattern"
+    check_type: content_pattern
+    on:
+      branches: [main]
+      paths:
+        include: ["src/**"]
+    config:
+      forbidden:
+        - pattern: "console.log("
+`;
+    const octokit = createMockOctokit({
+      data: { type: "file", content: yamlToBase64(contentPatternConfig) },
+    });
+
+    const result = await loadConfig(octokit, "owner", "repo");
+    expect(result.status).toBe("invalid");
+    if (result.status === "invalid") {
+      expect(result.errors.join("\n")).toContain("valid regular expression");
+    }
+  });
+
+  it("loads a file_pair config with companion_pattern", async () => {
+    const filePairConfig = `
+rules:
+  - name: tests-required
+    description: "Source files need matching tests"
+    check_type: file_pair
+    on:
+      branches: [main]
+      paths:
+        include: ["src/**/*.ts"]
+    config:
+      companion_pattern:
+        from: "src/{path}/{name}.ts"
+        to: "test/{path}/{name}.test.ts"
+`;
+    const octokit = createMockOctokit({
+      data: { type: "file", content: yamlToBase64(filePairConfig) },
+    });
+
+    const result = await loadConfig(octokit, "owner", "repo");
+    expect(result.status).toBe("loaded");
+  });
+
+  it("returns invalid when companion_pattern uses a placeholder missing from `from`", async () => {
+    const filePairConfig = `
+rules:
+  - name: tests-required
+    description: "Unknown placeholder"
+    check_type: file_pair
+    on:
+      branches: [main]
+      paths:
+        include: ["src/**/*.ts"]
+    config:
+      companion_pattern:
+        from: "src/{name}.ts"
+        to: "test/{module}/{name}.test.ts"
+`;
+    const octokit = createMockOctokit({
+      data: { type: "file", content: yamlToBase64(filePairConfig) },
+    });
+
+    const result = await loadConfig(octokit, "owner", "repo");
+    expect(result.status).toBe("invalid");
+  });
+
+  it("returns invalid when file_pair has both companion and companion_pattern", async () => {
+    const filePairConfig = `
+rules:
+  - name: tests-required
+    description: "Both set"
+    check_type: file_pair
+    on:
+      branches: [main]
+      paths:
+        include: ["src/**/*.ts"]
+    config:
+      companion: "CHANGELOG.md"
+      companion_pattern:
+        from: "src/{name}.ts"
+        to: "test/{name}.test.ts"
+`;
+    const octokit = createMockOctokit({
+      data: { type: "file", content: yamlToBase64(filePairConfig) },
+    });
+
+    const result = await loadConfig(octokit, "owner", "repo");
+    expect(result.status).toBe("invalid");
+  });
+
   it("re-throws non-404 API errors", async () => {
     const error: any = new Error("Unauthorized");
     error.status = 401;
@@ -500,3 +764,185 @@ rules:
     await expect(loadConfig(octokit, "owner", "repo")).rejects.toThrow("Unauthorized");
   });
 });
+
+describe("loadConfig with extends", () => {
+  beforeEach(() => {
+    clearConfigCache();
+  });
+
+  function createRoutedOctokit(files: Record<string, string>) {
+    return {
+      request: vi.fn().mockImplementation((_route: string, params: any) => {
+        const content = files[`${params.owner}/${params.repo}:${params.path}`];
+        if (content === undefined) {
+          return Promise.reject(Object.assign(new Error("Not Found"), { status: 404 }));
+        }
+        return Promise.resolve({ data: { type: "file", content: yamlToBase64(content) } });
+      }),
+    } as any;
+  }
+
+  const baseConfig = `
+rules:
+  - name: lockfile-check
+    description: "Org lockfile rule"
+    check_type: file_pair
+    on:
+      branches: [main]
+      paths:
+        include: ["package.json"]
+    config:
+      companion: "package-lock.json"
+  - name: stale-branch
+    description: "Org stale branch rule"
+    check_type: branch_age
+    on:
+      branches: [main]
+      paths:
+        include: ["**/*"]
+    config:
+      max_age_days: 14
+schedule:
+  interval_minutes: 120
+`;
+
+  it("inherits rules from the extended config", async () => {
+    const octokit = createRoutedOctokit({
+      "org/.github:branch-guard/base.yml": baseConfig,
+      "org/app:.github/branch-guard.yml": `extends: "org/.github:branch-guard/base.yml"\n`,
+    });
+
+    const result = await loadConfig(octokit, "org", "app");
+    expect(result.status).toBe("loaded");
+    if (result.status === "loaded") {
+      expect(result.config.rules.map((r) => r.name)).toEqual(["lockfile-check", "stale-branch"]);
+      expect(result.config.schedule?.interval_minutes).toBe(120);
+    }
+  });
+
+  it("overrides inherited rules by name, disables rules and appends new ones", async () => {
+    const octokit = createRoutedOctokit({
+      "org/.github:branch-guard/base.yml": baseConfig,
+      "org/app:.github/branch-guard.yml": `
+extends: "org/.github:branch-guard/base.yml"
+disabled_rules: [lockfile-check]
+rules:
+  - name: stale-branch
+    description: "Stricter for this repo"
+    check_type: branch_age
+    on:
+      branches: [main]
+      paths:
+        include: ["**/*"]
+    config:
+      max_age_days: 7
+  - name: changelog
+    description: "Repo-specific rule"
+    check_type: file_pair
+    on:
+      branches: [main]
+      paths:
+        include: ["src/**"]
+    config:
+      companion: "CHANGELOG.md"
+`,
+    });
+
+    const result = await loadConfig(octokit, "org", "app");
+    expect(result.status).toBe("loaded");
+    if (result.status === "loaded") {
+      expect(result.config.rules.map((r) => r.name)).toEqual(["stale-branch", "changelog"]);
+      expect(result.config.rules[0].description).toBe("Stricter for this repo");
+    }
+  });
+
+  it("defaults the extended path to .github/branch-guard.yml", async () => {
+    const octokit = createRoutedOctokit({
+      "org/shared:.github/branch-guard.yml": baseConfig,
+      "org/app:.github/branch-guard.yml": `extends: org/shared\n`,
+    });
+
+    const result = await loadConfig(octokit, "org", "app");
+    expect(result.status).toBe("loaded");
+  });
+
+  it("follows multi-level chains", async () => {
+    const octokit = createRoutedOctokit({
+      "org/.github:base.yml": baseConfig,
+      "org/.github:team.yml": `extends: "org/.github:base.yml"\ndisabled_rules: [stale-branch]\n`,
+      "org/app:.github/branch-guard.yml": `extends: "org/.github:team.yml"\n`,
+    });
+
+    const result = await loadConfig(octokit, "org", "app");
+    expect(result.status).toBe("loaded");
+    if (result.status === "loaded") {
+      expect(result.config.rules.map((r) => r.name)).toEqual(["lockfile-check"]);
+    }
+  });
+
+  it("returns invalid for circular extends", async () => {
+    const octokit = createRoutedOctokit({
+      "org/a:.github/branch-guard.yml": `extends: org/b\n`,
+      "org/b:.github/branch-guard.yml": `extends: org/a\n`,
+    });
+
+    const result = await loadConfig(octokit, "org", "a");
+    expect(result.status).toBe("invalid");
+    if (result.status === "invalid") {
+      expect(result.errors[0]).toContain("circular reference");
+      expect(result.errors[0]).toContain("org/a:.github/branch-guard.yml → org/b:.github/branch-guard.yml → org/a");
+    }
+  });
+
+  it("returns invalid when the extended config is missing", async () => {
+    const octokit = createRoutedOctokit({
+      "org/app:.github/branch-guard.yml": `extends: "org/.github:missing.yml"\n`,
+    });
+
+    const result = await loadConfig(octokit, "org", "app");
+    expect(result.status).toBe("invalid");
+    if (result.status === "invalid") {
+      expect(result.errors[0]).toBe("extends: config org/.github:missing.yml not found");
+    }
+  });
+
+  it("returns invalid for a malformed extends value", async () => {
+    const octokit = createRoutedOctokit({
+      "org/app:.github/branch-guard.yml": `extends: not-a-repo\n`,
+    });
+
+    const result = await loadConfig(octokit, "org", "app");
+    expect(result.status).toBe("invalid");
+  });
+
+  it("re-merges when the chain changes", async () => {
+    const files: Record<string, string> = {
+      "org/.github:base.yml": baseConfig,
+      "org/.github:other.yml": baseConfig.replace("stale-branch", "old-branch"),
+      "org/app:.github/branch-guard.yml": `extends: "org/.github:base.yml"\n`,
+    };
+    const octokit = createRoutedOctokit(files);
+
+    const first = await loadConfig(octokit, "org", "app", "sha1");
+    files["org/app:.github/branch-guard.yml"] = `extends: "org/.github:other.yml"\n`;
+    const second = await loadConfig(octokit, "org", "app", "sha2");
+
+    expect(first.status === "loaded" && first.config.rules[1].name).toBe("stale-branch");
+    expect(second.status === "loaded" && second.config.rules[1].name).toBe("old-branch");
+  });
+
+  it("caches each config file across repos sharing a base", async () => {
+    const octokit = createRoutedOctokit({
+      "org/.github:base.yml": baseConfig,
+      "org/app:.github/branch-guard.yml": `extends: "org/.github:base.yml"\n`,
+      "org/api:.github/branch-guard.yml": `extends: "org/.github:base.yml"\n`,
+    });
+
+    await loadConfig(octokit, "org", "app");
+    await loadConfig(octokit, "org", "api");
+    await loadConfig(octokit, "org", "app");
+
+    // app, base and api — base is fetched once
+    expect(octokit.request).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { getAddedLines } from "../../src/services/diff-parser.js";
+
+describe("getAddedLines", () => {
+  it("returns added lines with their new-file line numbers", () => {
+    const patch = [
+      "@@ -10,4 +10,5 @@ function main() {",
+      " const a = 1;",
+      "-const b = 2;",
+      "+const b = 3;",
+      "+console.log(b);",
+      " return a;",
+    ].join("\n");
+
+    expect(getAddedLines(patch)).toEqual([
+      { line: 11, content: "const b = 3;" },
+      { line: 12, content: "console.log(b);" },
+    ]);
+  });
+
+  it("tracks line numbers across multiple hunks", () => {
+    const patch = [
+      "@@ -1,2 +1,3 @@",
+      "+// header",
+      " line one",
+      " line two",
+      "@@ -40 +41,2 @@",
+      " line forty",
+      "+line forty-one",
+    ].join("\n");
+
+    expect(getAddedLines(patch)).toEqual([
+      { line: 1, content: "// header" },
+      { line: 42, content: "line forty-one" },
+    ]);
+  });
+
+  it("ignores the no-newline marker", () => {
+    const patch = [
+      "@@ -0,0 +1 @@",
+      "+only line",
+      "\\ No newline at end of file",
+    ].join("\n");
+
+    expect(getAddedLines(patch)).toEqual([{ line: 1, content: "only line" }]);
+  });
+});
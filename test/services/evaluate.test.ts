@@ -1,7 +1,15 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { evaluateRules, postConfigError } from "../../src/services/evaluate.js";
+import { evaluateRules, postConfigError, traceRule } from "../../src/services/evaluate.js";
 import { registerCheck } from "../../src/checks/index.js";
 import { clearTreeCache } from "../../src/services/github-trees.js";
+import { recordOverride, clearOverrides } from "../../src/services/overrides.js";
+import {
+  ExternalStatusCheck,
+  getPendingEvaluation,
+  getPendingKey,
+  setPendingEvaluation,
+  clearPendingEvaluations,
+} from "../../src/checks/external-status.js";
 import type { Config, CheckType, CheckContext, CheckResult } from "../../src/types.js";
 
 // Register mock check types for testing
@@ -19,8 +27,17 @@ const mockFilePair: CheckType = {
   },
 };
 
+// Stands in for checks that read PR data, like label_required
+const mockPrOnly = {
+  name: "label_required",
+  requiresPullRequest: true,
+  execute: vi.fn(async (): Promise<CheckResult> => ({ conclusion: "failure", title: "Missing label", summary: "" })),
+};
+
 registerCheck(mockFilePresence);
 registerCheck(mockFilePair);
+registerCheck(mockPrOnly);
+registerCheck(new ExternalStatusCheck());
 
 function createMockOctokit() {
   return {
@@ -378,6 +395,90 @@ describe("evaluateRules", () => {
     expect(postCommentCall![1].body).toContain("branch-guard-status");
   });
 
+  it("posts a neutral check and a warnings section for failing warning-severity rules", async () => {
+    const octokit = createMockOctokit();
+    const config: Config = {
+      rules: [
+        {
+          name: "soft-rule",
+          description: "Test",
+          check_type: "file_pair",
+          on: { branches: ["main"], paths: { include: ["src/**"], exclude: [] } },
+          config: { companion: "package-lock.json" },
+          severity: "warning",
+        },
+      ],
+    } as Config;
+
+    await evaluateRules({
+      octokit,
+      owner: "owner",
+      repo: "repo",
+      pr: {
+        number: 5,
+        headSha: "abc123",
+        baseBranch: "main",
+        baseSha: "base456",
+        changedFiles: ["src/index.ts"],
+      },
+      config,
+      logger: createLogger(),
+    });
+
+    const completeCall = octokit.request.mock.calls.find(
+      (call: any[]) => call[0] === "PATCH /repos/{owner}/{repo}/check-runs/{check_run_id}" && call[1].status === "completed",
+    );
+    expect(completeCall![1].conclusion).toBe("neutral");
+    expect(completeCall![1].output.title).toBe("Missing companion");
+
+    const postCommentCall = octokit.request.mock.calls.find(
+      (call: any[]) => call[0] === "POST /repos/{owner}/{repo}/issues/{issue_number}/comments",
+    );
+    expect(postCommentCall![1].body).toContain("1 warning(s)");
+    expect(postCommentCall![1].body).toContain("| `soft-rule` | ⚠️ Warning | Missing companion |");
+  });
+
+  it("posts a neutral check without a PR comment for failing info-severity rules", async () => {
+    const octokit = createMockOctokit();
+    const config: Config = {
+      rules: [
+        {
+          name: "info-rule",
+          description: "Test",
+          check_type: "file_pair",
+          on: { branches: ["main"], paths: { include: ["src/**"], exclude: [] } },
+          config: { companion: "package-lock.json" },
+          severity: "info",
+        },
+      ],
+    } as Config;
+
+    await evaluateRules({
+      octokit,
+      owner: "owner",
+      repo: "repo",
+      pr: {
+        number: 5,
+        headSha: "abc123",
+        baseBranch: "main",
+        baseSha: "base456",
+        changedFiles: ["src/index.ts"],
+      },
+      config,
+      logger: createLogger(),
+    });
+
+    const completeCall = octokit.request.mock.calls.find(
+      (call: any[]) => call[0] === "PATCH /repos/{owner}/{repo}/check-runs/{check_run_id}" && call[1].status === "completed",
+    );
+    expect(completeCall![1].conclusion).toBe("neutral");
+
+    const postCommentCall = octokit.request.mock.calls.find(
+      (call: any[]) => call[0] === "POST /repos/{owner}/{repo}/issues/{issue_number}/comments",
+    );
+    expect(postCommentCall).toBeUndefined();
+  });
+
   it("does not post failure PR comment when rule has notify: false", async () => {
     const octokit = createMockOctokit();
     const config: Config = {
@@ -554,6 +655,408 @@ describe("evaluateRules", () => {
     expect(patchCall![1].output.title).toBe("Missing companion");
     expect(patchCall![1].output.summary).toBe("Companion not updated");
   });
+  it("passes rules whose on.labels conditions are not met without executing them", async () => {
+    const octokit = createMockOctokit();
+    const config: Config = {
+      rules: [
+        {
+          name: "labelled-rule",
+          description: "Test",
+          check_type: "file_pair",
+          on: {
+            branches: ["main"],
+            paths: { include: ["src/**"], exclude: [] },
+            labels: { include: ["needs-changelog"], exclude: [] },
+          },
+          config: { companion: "CHANGELOG.md", mode: "any" },
+          notify: true,
+        },
+      ],
+    };
+
+    await evaluateRules({
+      octokit,
+      owner: "owner",
+      repo: "repo",
+      pr: {
+        number: 1,
+        headSha: "abc123",
+        baseBranch: "main",
+        baseSha: "base456",
+        changedFiles: ["src/index.ts"],
+        labels: ["bug"],
+      },
+      config,
+      logger: createLogger(),
+    });
+
+    const createCall = octokit.request.mock.calls.find(
+      (call: any[]) => call[0] === "POST /repos/{owner}/{repo}/check-runs",
+    );
+    expect(createCall).toBeDefined();
+    expect(createCall![1].conclusion).toBe("success");
+    expect(createCall![1].output.title).toBe("Rule not applicable");
+    expect(createCall![1].output.summary).toContain("on.labels");
+  });
+
+  it("evaluates rules when on.labels conditions are met", async () => {
+    const octokit = createMockOctokit();
+    const config: Config = {
+      rules: [
+        {
+          name: "labelled-rule",
+          description: "Test",
+          check_type: "file_pair",
+          on: {
+            branches: ["main"],
+            paths: { include: ["src/**"], exclude: [] },
+            labels: { include: ["needs-changelog"], exclude: ["skip-changelog"] },
+          },
+          config: { companion: "CHANGELOG.md", mode: "any" },
+          notify: true,
+        },
+      ],
+    };
+
+    await evaluateRules({
+      octokit,
+      owner: "owner",
+      repo: "repo",
+      pr: {
+        number: 1,
+        headSha: "abc123",
+        baseBranch: "main",
+        baseSha: "base456",
+        changedFiles: ["src/index.ts"],
+        labels: ["Needs-Changelog"],
+      },
+      config,
+      logger: createLogger(),
+    });
+
+    const patchCall = octokit.request.mock.calls.find(
+      (call: any[]) => call[0] === "PATCH /repos/{owner}/{repo}/check-runs/{check_run_id}" && call[1].status === "completed",
+    );
+    expect(patchCall).toBeDefined();
+    expect(patchCall![1].output.title).toBe("Missing companion");
+  });
+
+  it("passes an overridden rule without running its check", async () => {
+    clearOverrides();
+    recordOverride({
+      owner: "owner",
+      repo: "repo",
+      headSha: "abc123",
+      ruleName: "test-rule",
+      author: "alice",
+      reason: "Hotfix",
+      createdAt: 0,
+    });
+    const octokit = createMockOctokit();
+    const config = {
+      rules: [{
+        name: "test-rule",
+        description: "Test",
+        check_type: "file_pair",
+        on: { branches: ["main"], paths: { include: ["src/**"], exclude: [] } },
+        config: { companion: "package-lock.json" },
+      }],
+    } as unknown as Config;
+
+    await evaluateRules({
+      octokit, owner: "owner", repo: "repo",
+      pr: { number: 5, headSha: "abc123", baseBranch: "main", baseSha: "base456", changedFiles: ["src/index.ts"] },
+      config, logger: createLogger(),
+    });
+
+    const createCall = octokit.request.mock.calls.find(
+      (call: any[]) => call[0] === "POST /repos/{owner}/{repo}/check-runs",
+    );
+    expect(createCall![1].status).toBe("completed");
+    expect(createCall![1].conclusion).toBe("success");
+    expect(createCall![1].output.title).toBe("Overridden by @alice");
+    expect(createCall![1].output.summary).toContain("**Reason:** Hotfix");
+    clearOverrides();
+  });
+
+  describe("merge queue entries", () => {
+    const queueEntry = {
+      headSha: "queue123",
+      baseBranch: "main",
+      baseSha: "base456",
+      changedFiles: ["src/index.ts"],
+    };
+
+    function rule(name: string, checkType: string) {
+      return {
+        name,
+        description: "Test",
+        check_type: checkType,
+        on: { branches: ["main"], paths: { include: ["src/**"], exclude: [] } },
+        config: {},
+      };
+    }
+
+    it("posts check runs without touching the PR comment", async () => {
+      const octokit = createMockOctokit();
+      const config = { rules: [rule("lockfile", "file_pair")] } as unknown as Config;
+
+      await evaluateRules({ octokit, owner: "owner", repo: "repo", pr: queueEntry, config, logger: createLogger() });
+
+      const updateCall = octokit.request.mock.calls.find(
+        (call: any[]) => call[0] === "PATCH /repos/{owner}/{repo}/check-runs/{check_run_id}" && call[1].status === "completed",
+      );
+      expect(updateCall![1].conclusion).toBe("failure");
+      const commentCalls = octokit.request.mock.calls.filter((call: any[]) => call[0].includes("/issues/"));
+      expect(commentCalls).toHaveLength(0);
+    });
+
+    it("passes checks that need a PR without running them", async () => {
+      mockPrOnly.execute.mockClear();
+      const octokit = createMockOctokit();
+      const config = { rules: [rule("semver-label", "label_required")] } as unknown as Config;
+
+      await evaluateRules({ octokit, owner: "owner", repo: "repo", pr: queueEntry, config, logger: createLogger() });
+
+      expect(mockPrOnly.execute).not.toHaveBeenCalled();
+      const createCall = octokit.request.mock.calls.find(
+        (call: any[]) => call[0] === "POST /repos/{owner}/{repo}/check-runs",
+      );
+      expect(createCall![1].conclusion).toBe("success");
+      expect(createCall![1].output.summary).toContain("runs on the pull request rather than in the merge queue");
+    });
+
+    it("passes label-conditioned rules without running them", async () => {
+      const octokit = createMockOctokit();
+      const labelled = { ...rule("changelog", "file_pair"), on: { ...rule("changelog", "file_pair").on, labels: { exclude: ["skip-changelog"] } } };
+      const config = { rules: [labelled] } as unknown as Config;
+
+      await evaluateRules({ octokit, owner: "owner", repo: "repo", pr: queueEntry, config, logger: createLogger() });
+
+      const createCall = octokit.request.mock.calls.find(
+        (call: any[]) => call[0] === "POST /repos/{owner}/{repo}/check-runs",
+      );
+      expect(createCall![1].conclusion).toBe("success");
+      expect(createCall![1].output.summary).toContain("`on.labels` conditions");
+    });
+  });
+
+  it("adds re-run and override buttons to failing rule checks", async () => {
+    const octokit = createMockOctokit();
+    const config = {
+      rules: [{
+        name: "lockfile",
+        description: "Test",
+        check_type: "file_pair",
+        on: { branches: ["main"], paths: { include: ["src/**"], exclude: [] } },
+        config: {},
+      }],
+    } as unknown as Config;
+
+    await evaluateRules({
+      octokit, owner: "owner", repo: "repo",
+      pr: { number: 5, headSha: "abc123", baseBranch: "main", baseSha: "base456", changedFiles: ["src/index.ts"] },
+      config, logger: createLogger(),
+    });
+
+    const completed = octokit.request.mock.calls.find(
+      (call: any[]) => call[0] === "PATCH /repos/{owner}/{repo}/check-runs/{check_run_id}" && call[1].status === "completed",
+    );
+    expect(completed![1].actions.map((a: any) => a.identifier)).toEqual(["recheck", "override"]);
+  });
+
+  it("skips the PR comment when notify is false", async () => {
+    const octokit = createMockOctokit();
+    const config = {
+      rules: [{
+        name: "lockfile",
+        description: "Test",
+        check_type: "file_pair",
+        on: { branches: ["main"], paths: { include: ["src/**"], exclude: [] } },
+        config: {},
+      }],
+    } as unknown as Config;
+
+    await evaluateRules({
+      octokit, owner: "owner", repo: "repo",
+      pr: { number: 5, headSha: "abc123", baseBranch: "main", baseSha: "base456", changedFiles: ["src/index.ts"] },
+      config, logger: createLogger(), notify: false,
+    });
+
+    const commentCalls = octokit.request.mock.calls.filter((call: any[]) => call[0].includes("/issues/"));
+    expect(commentCalls).toHaveLength(0);
+  });
+
+  describe("shadow mode", () => {
+    const shadowRule = {
+      name: "new-rule",
+      description: "Test",
+      check_type: "file_pair",
+      on: { branches: ["main"], paths: { include: ["src/**"], exclude: [] } },
+      config: { companion: "package-lock.json" },
+      mode: "shadow",
+    };
+    const pr = {
+      number: 5,
+      headSha: "abc123",
+      baseBranch: "main",
+      baseSha: "base456",
+      changedFiles: ["src/index.ts"],
+    };
+
+    it("executes shadow rules without posting check runs or comments", async () => {
+      const octokit = createMockOctokit();
+      const config = { rules: [shadowRule] } as unknown as Config;
+
+      const summary = await evaluateRules({ octokit, owner: "owner", repo: "repo", pr, config, logger: createLogger() });
+
+      expect(summary.shadow).toEqual([
+        { ruleName: "new-rule", conclusion: "failure", title: "Missing companion" },
+      ]);
+      const writeCalls = octokit.request.mock.calls.filter(
+        (call: any[]) => call[0].startsWith("POST") || call[0].startsWith("PATCH"),
+      );
+      expect(writeCalls).toHaveLength(0);
+    });
+
+    it("treats every rule as shadow when the config mode is shadow", async () => {
+      const octokit = createMockOctokit();
+      const config = {
+        mode: "shadow",
+        rules: [{ ...shadowRule, mode: "enforce" }],
+      } as unknown as Config;
+
+      const summary = await evaluateRules({ octokit, owner: "owner", repo: "repo", pr, config, logger: createLogger() });
+
+      expect(summary.shadow).toHaveLength(1);
+      expect(octokit.request.mock.calls.some((call: any[]) => call[0].startsWith("POST"))).toBe(false);
+    });
+
+    it("keeps shadow failures out of the PR comment for enforced rules", async () => {
+      const octokit = createMockOctokit();
+      const config = {
+        rules: [
+          shadowRule,
+          {
+            name: "enforced-rule",
+            description: "Test",
+            check_type: "file_presence",
+            on: { branches: ["main"], paths: { include: ["src/**"], exclude: [] } },
+            config: { mode: "base_subset_of_head" },
+          },
+        ],
+      } as unknown as Config;
+
+      await evaluateRules({ octokit, owner: "owner", repo: "repo", pr, config, logger: createLogger() });
+
+      const createCalls = octokit.request.mock.calls.filter(
+        (call: any[]) => call[0] === "POST /repos/{owner}/{repo}/check-runs",
+      );
+      expect(createCalls.map((call: any[]) => call[1].name)).toEqual(["branch-guard/enforced-rule"]);
+      const commentCall = octokit.request.mock.calls.find(
+        (call: any[]) => call[0] === "POST /repos/{owner}/{repo}/issues/{issue_number}/comments",
+      );
+      expect(commentCall).toBeUndefined();
+    });
+
+    it("posts a neutral summary check when summary_check is enabled", async () => {
+      const octokit = createMockOctokit();
+      const config = { rules: [shadowRule], shadow: { summary_check: true } } as unknown as Config;
+
+      await evaluateRules({ octokit, owner: "owner", repo: "repo", pr, config, logger: createLogger() });
+
+      const createCall = octokit.request.mock.calls.find(
+        (call: any[]) => call[0] === "POST /repos/{owner}/{repo}/check-runs",
+      );
+      expect(createCall![1].name).toBe("branch-guard/shadow");
+      expect(createCall![1].conclusion).toBe("neutral");
+      expect(createCall![1].output.title).toBe("Shadow mode: 1 of 1 rule(s) would fail");
+      expect(createCall![1].output.summary).toContain("| `new-rule` | ❌ Fail | Missing companion |");
+    });
+
+    it("skips shadow rules that don't apply to the PR", async () => {
+      const octokit = createMockOctokit();
+      const config = { rules: [shadowRule] } as unknown as Config;
+
+      const summary = await evaluateRules({
+        octokit, owner: "owner", repo: "repo",
+        pr: { ...pr, changedFiles: ["docs/readme.md"] },
+        config, logger: createLogger(),
+      });
+
+      expect(summary.shadow).toEqual([]);
+      expect(octokit.request).not.toHaveBeenCalled();
+    });
+  });
+
+  it("evaluates only the requested rules and merges into the existing PR comment", async () => {
+    const octokit = createMockOctokit();
+    const existingBody = [
+      "<!-- branch-guard-status -->",
+      "| `other-rule` | ❌ Failed | Still broken |",
+    ].join("\n");
+    octokit.request.mockImplementation((url: string) => {
+      if (url.includes("commits") && url.includes("check-runs")) {
+        return Promise.resolve({ data: { check_runs: [] } });
+      }
+      if (url === "GET /repos/{owner}/{repo}/issues/{issue_number}/comments") {
+        return Promise.resolve({ data: [{ id: 55, body: existingBody }] });
+      }
+      if (url.startsWith("POST")) {
+        return Promise.resolve({ data: { id: 100 } });
+      }
+      return Promise.resolve({ data: {} });
+    });
+
+    const config: Config = {
+      rules: [
+        {
+          name: "failing-rule",
+          description: "Test",
+          check_type: "file_pair",
+          on: { branches: ["main"], paths: { include: ["src/**"], exclude: [] } },
+          config: { companion: "package-lock.json", mode: "any" },
+          notify: true,
+        },
+        {
+          name: "skipped-rule",
+          description: "Test",
+          check_type: "file_presence",
+          on: { branches: ["main"], paths: { include: ["src/**"], exclude: [] } },
+          config: { mode: "base_subset_of_head" },
+          notify: true,
+        },
+      ],
+    };
+
+    await evaluateRules({
+      octokit,
+      owner: "owner",
+      repo: "repo",
+      pr: {
+        number: 5,
+        headSha: "abc123",
+        baseBranch: "main",
+        baseSha: "base456",
+        changedFiles: ["src/index.ts"],
+      },
+      config,
+      logger: createLogger(),
+      ruleNames: ["failing-rule"],
+    });
+
+    const createdChecks = octokit.request.mock.calls
+      .filter((call: any[]) => call[0] === "POST /repos/{owner}/{repo}/check-runs")
+      .map((call: any[]) => call[1].name);
+    expect(createdChecks).toEqual(["branch-guard/failing-rule"]);
+
+    const commentPatch = octokit.request.mock.calls.find(
+      (call: any[]) => call[0] === "PATCH /repos/{owner}/{repo}/issues/comments/{comment_id}",
+    );
+    expect(commentPatch).toBeDefined();
+    expect(commentPatch![1].body).toContain("other-rule");
+    expect(commentPatch![1].body).toContain("failing-rule");
+  });
 });
 
 describe("postConfigError", () => {
@@ -574,3 +1077,152 @@ describe("postConfigError", () => {
     );
   });
 });
+
+describe("traceRule", () => {
+  const rule = {
+    name: "changelog",
+    description: "Test",
+    check_type: "file_pair",
+    on: { branches: ["main"], paths: { include: ["src/**", "lib/**"], exclude: ["**/*.test.ts"] } },
+    config: { companion: "CHANGELOG.md" },
+    severity: "warning",
+  } as any;
+  const pr = {
+    number: 5,
+    headSha: "abc123",
+    baseBranch: "main",
+    baseSha: "base456",
+    changedFiles: ["src/index.ts", "lib/util.test.ts", "README.md"],
+  };
+
+  function params(octokit: any, prOverrides: Partial<typeof pr> = {}) {
+    return { octokit, owner: "owner", repo: "repo", pr: { ...pr, ...prOverrides }, logger: createLogger() };
+  }
+
+  it("records which glob matched each file and the dry-run result", async () => {
+    const octokit = createMockOctokit();
+
+    const trace = await traceRule(params(octokit), rule, { rules: [rule] } as Config);
+
+    expect(trace.branch).toEqual({ name: "main", matched: true });
+    expect(trace.files).toEqual([
+      { path: "src/index.ts", include: "src/**" },
+      { path: "lib/util.test.ts", include: "lib/**", exclude: "**/*.test.ts" },
+    ]);
+    expect(trace.unmatchedFiles).toBe(1);
+    expect(trace.skipped).toBeUndefined();
+    // Severity is applied, so the warning rule's failure is neutral
+    expect(trace.result).toEqual(expect.objectContaining({ conclusion: "neutral", title: "Missing companion" }));
+    expect(octokit.request).not.toHaveBeenCalled();
+  });
+
+  it("skips the check when the base branch doesn't match", async () => {
+    const trace = await traceRule(params(createMockOctokit(), { baseBranch: "develop" }), rule, { rules: [rule] } as Config);
+
+    expect(trace.branch.matched).toBe(false);
+    expect(trace.skipped).toContain("base branch");
+    expect(trace.result).toBeUndefined();
+  });
+
+  it("skips the check when no files match", async () => {
+    const trace = await traceRule(params(createMockOctokit(), { changedFiles: ["README.md"] }), rule, { rules: [rule] } as Config);
+
+    expect(trace.skipped).toBe("No matching files changed in this PR.");
+  });
+
+  it("records unmet label conditions", async () => {
+    const labelled = { ...rule, on: { ...rule.on, labels: { include: ["release"], exclude: [] } } };
+
+    const trace = await traceRule(params(createMockOctokit()), labelled, { rules: [labelled] } as Config);
+
+    expect(trace.labels).toEqual({ present: [], matched: false });
+    expect(trace.skipped).toContain("labels");
+  });
+
+  it("records renames and files excluded by status", async () => {
+    const statusRule = { ...rule, on: { ...rule.on, paths: { include: ["src/**"], exclude: [], statuses: ["added"] } } };
+    const files = [
+      { filename: "src/new.ts", status: "added" as const, additions: 1, deletions: 0 },
+      { filename: "src/util.ts", status: "modified" as const, additions: 1, deletions: 1 },
+      { filename: "src/renamed.ts", previousFilename: "lib/renamed.ts", status: "renamed" as const, additions: 0, deletions: 0 },
+    ];
+
+    const trace = await traceRule(
+      params(createMockOctokit(), { changedFiles: files.map((f) => f.filename), files } as any),
+      statusRule,
+      { rules: [statusRule] } as Config,
+    );
+
+    expect(trace.files).toEqual([
+      { path: "src/new.ts", include: "src/**" },
+      { path: "src/util.ts", include: "src/**", excludedStatus: "modified" },
+      { path: "src/renamed.ts", previousPath: "lib/renamed.ts", include: "src/**", excludedStatus: "renamed" },
+    ]);
+    expect(trace.skipped).toBeUndefined();
+  });
+
+  it("leaves pending external_status evaluations in place", async () => {
+    clearPendingEvaluations();
+    const external = {
+      ...rule,
+      check_type: "external_status",
+      config: { required_checks: ["ci"], timeout_minutes: 30 },
+    };
+    const key = getPendingKey("owner", "repo", "abc123", "changelog");
+    setPendingEvaluation(key, {
+      owner: "owner",
+      repo: "repo",
+      headSha: "abc123",
+      ruleName: "changelog",
+      requiredChecks: ["ci"],
+      checkRunId: 42,
+      createdAt: Date.now(),
+      timeoutMinutes: 30,
+    });
+    const octokit = {
+      request: vi.fn().mockResolvedValue({
+        data: { check_runs: [{ name: "ci", status: "completed", conclusion: "success" }] },
+      }),
+    } as any;
+
+    const trace = await traceRule(params(octokit), external, { rules: [external] } as Config);
+
+    expect(trace.result).toEqual(expect.objectContaining({ title: "All required checks passed" }));
+    // The check_run webhook or sweeper still needs it to complete check run 42
+    expect(getPendingEvaluation(key)).toBeDefined();
+  });
+
+  it("traces renames into excluded paths the way they match", async () => {
+    const generated = { ...rule, on: { ...rule.on, paths: { include: ["**/*.ts"], exclude: ["generated/**"] } } };
+    const files = [
+      { filename: "generated/a.ts", previousFilename: "src/a.ts", status: "renamed" as const, additions: 0, deletions: 0 },
+      { filename: "generated/b.ts", status: "added" as const, additions: 1, deletions: 0 },
+    ];
+
+    const trace = await traceRule(
+      params(createMockOctokit(), { changedFiles: files.map((f) => f.filename), files } as any),
+      generated,
+      { rules: [generated] } as Config,
+    );
+
+    // The previous path is included and not excluded, so the rule runs on the file
+    expect(trace.files).toEqual([
+      { path: "generated/a.ts", previousPath: "src/a.ts", include: "**/*.ts" },
+      { path: "generated/b.ts", include: "**/*.ts", exclude: "generated/**" },
+    ]);
+    expect(trace.skipped).toBeUndefined();
+  });
+
+  it("skips rules whose on.paths.statuses match no changed file", async () => {
+    const statusRule = { ...rule, on: { ...rule.on, paths: { include: ["src/**"], exclude: [], statuses: ["removed"] } } };
+    const files = [{ filename: "src/index.ts", status: "modified" as const, additions: 1, deletions: 0 }];
+
+    const trace = await traceRule(
+      params(createMockOctokit(), { changedFiles: ["src/index.ts"], files } as any),
+      statusRule,
+      { rules: [statusRule] } as Config,
+    );
+
+    expect(trace.skipped).toBe("No matching files changed in this PR.");
+  });
+});
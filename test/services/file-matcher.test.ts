@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
-import { matchFiles, hasMatchingFiles } from "../../src/services/file-matcher.js";
+import { matchFiles, hasMatchingFiles, matchesBranch, matchChangedFiles, changedFileMatcher, pathStatus } from "../../src/services/file-matcher.js";
+import type { ChangedFile, PullRequestContext } from "../../src/types.js";
 
 describe("matchFiles", () => {
   it("matches files with a simple glob", () => {
@@ -83,3 +84,115 @@ describe("hasMatchingFiles", () => {
     expect(hasMatchingFiles([], ["src/**"])).toBe(false);
   });
 });
+
+describe("matchesBranch", () => {
+  it("matches exact branch names", () => {
+    expect(matchesBranch("main", ["main", "develop"])).toBe(true);
+    expect(matchesBranch("feature/x", ["main", "develop"])).toBe(false);
+  });
+
+  it("matches glob patterns", () => {
+    expect(matchesBranch("release/1.2", ["release/*"])).toBe(true);
+    expect(matchesBranch("release/1.2/hotfix", ["release/*"])).toBe(false);
+    expect(matchesBranch("release/1.2/hotfix", ["release/**"])).toBe(true);
+  });
+
+  it("excludes branches matching a negation", () => {
+    const patterns = ["release/*", "!release/legacy-*"];
+    expect(matchesBranch("release/1.3", patterns)).toBe(true);
+    expect(matchesBranch("release/legacy-1.0", patterns)).toBe(false);
+  });
+
+  it("treats a list of only negations as matching every other branch", () => {
+    expect(matchesBranch("main", ["!gh-pages"])).toBe(true);
+    expect(matchesBranch("gh-pages", ["!gh-pages"])).toBe(false);
+  });
+
+  it("does not treat dots in branch names specially", () => {
+    expect(matchesBranch("release/v1.2.3", ["release/v1.*"])).toBe(true);
+    expect(matchesBranch("release/v1x2", ["release/v1.*"])).toBe(false);
+  });
+});
+
+describe("matchChangedFiles", () => {
+  function prWith(files: Array<Pick<ChangedFile, "filename" | "status"> & Partial<ChangedFile>>): PullRequestContext {
+    const changed = files.map((f) => ({ additions: 0, deletions: 0, ...f }));
+    return {
+      number: 1,
+      headSha: "head",
+      baseBranch: "main",
+      baseSha: "base",
+      changedFiles: changed.map((f) => f.filename),
+      files: changed,
+    };
+  }
+
+  const migrations = { include: ["db/migrations/**"], exclude: [] };
+
+  it("matches a renamed file by its previous path", () => {
+    const pr = prWith([
+      { filename: "db/archive/0001_init.sql", previousFilename: "db/migrations/0001_init.sql", status: "renamed" },
+    ]);
+
+    expect(matchChangedFiles(pr, migrations)).toEqual(["db/archive/0001_init.sql"]);
+  });
+
+  it("applies exclude patterns to both paths of a rename", () => {
+    const pr = prWith([
+      { filename: "db/migrations/0002.sql", previousFilename: "db/migrations/draft/0002.sql", status: "renamed" },
+    ]);
+
+    expect(matchChangedFiles(pr, { include: ["db/**"], exclude: ["db/migrations/draft/**"] })).toEqual(["db/migrations/0002.sql"]);
+  });
+
+  it("only matches files with the configured statuses", () => {
+    const pr = prWith([
+      { filename: "db/migrations/0001_init.sql", status: "modified" },
+      { filename: "db/migrations/0002_users.sql", status: "added" },
+      { filename: "db/migrations/0000_seed.sql", status: "removed" },
+    ]);
+
+    expect(matchChangedFiles(pr, { ...migrations, statuses: ["added"] })).toEqual(["db/migrations/0002_users.sql"]);
+    expect(matchChangedFiles(pr, { ...migrations, statuses: ["modified", "removed"] })).toEqual([
+      "db/migrations/0001_init.sql",
+      "db/migrations/0000_seed.sql",
+    ]);
+  });
+
+  it("falls back to plain path matching without per-file details", () => {
+    const pr: PullRequestContext = {
+      number: 1,
+      headSha: "head",
+      baseBranch: "main",
+      baseSha: "base",
+      changedFiles: ["db/migrations/0001_init.sql", "README.md"],
+    };
+
+    expect(matchChangedFiles(pr, { ...migrations, statuses: ["added"] })).toEqual(["db/migrations/0001_init.sql"]);
+  });
+});
+
+describe("changedFileMatcher", () => {
+  const matchPaths = changedFileMatcher(["**/*.ts"], ["generated/**"]);
+
+  it("returns the globs that matched a file", () => {
+    expect(matchPaths({ filename: "src/a.ts" })).toEqual({ path: "src/a.ts", include: "**/*.ts" });
+    expect(matchPaths({ filename: "generated/a.ts" })).toEqual({ path: "generated/a.ts", include: "**/*.ts", exclude: "generated/**" });
+    expect(matchPaths({ filename: "README.md" })).toBeNull();
+  });
+
+  it("prefers the path of a rename that isn't excluded", () => {
+    expect(matchPaths({ filename: "generated/a.ts", previousFilename: "src/a.ts" })).toEqual({ path: "src/a.ts", include: "**/*.ts" });
+  });
+});
+
+describe("pathStatus", () => {
+  it("maps GitHub file statuses onto on.paths.statuses", () => {
+    expect(pathStatus("added")).toBe("added");
+    expect(pathStatus("copied")).toBe("added");
+    expect(pathStatus("modified")).toBe("modified");
+    expect(pathStatus("changed")).toBe("modified");
+    expect(pathStatus("removed")).toBe("removed");
+    expect(pathStatus("renamed")).toBe("renamed");
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  canOverride,
+  getOverride,
+  overrideResult,
+  recordOverride,
+  applyOverride,
+  clearOverrides,
+  type RuleOverride,
+} from "../../src/services/overrides.js";
+import {
+  getPendingEvaluation,
+  getPendingKey,
+  setPendingEvaluation,
+  clearPendingEvaluations,
+} from "../../src/checks/external-status.js";
+
+const logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } as any;
+
+const override: RuleOverride = {
+  owner: "owner",
+  repo: "repo",
+  headSha: "abc1234567",
+  ruleName: "pr-size",
+  author: "alice",
+  reason: "Generated code",
+  createdAt: 0,
+};
+
+describe("override store", () => {
+  beforeEach(() => {
+    clearOverrides();
+  });
+
+  it("stores overrides per head SHA and rule", () => {
+    recordOverride(override);
+
+    expect(getOverride("owner", "repo", "abc1234567", "pr-size")).toEqual(override);
+    expect(getOverride("owner", "repo", "def4567890", "pr-size")).toBeUndefined();
+    expect(getOverride("owner", "repo", "abc1234567", "changelog")).toBeUndefined();
+  });
+
+  it("drops the rule's pending evaluation when applying an override", () => {
+    clearPendingEvaluations();
+    const key = getPendingKey("owner", "repo", "abc1234567", "pr-size");
+    setPendingEvaluation(key, {
+      owner: "owner",
+      repo: "repo",
+      headSha: "abc1234567",
+      ruleName: "pr-size",
+      requiredChecks: ["ci"],
+      checkRunId: 1,
+      createdAt: 0,
+      timeoutMinutes: 30,
+    });
+
+    applyOverride(override);
+
+    expect(getOverride("owner", "repo", "abc1234567", "pr-size")).toEqual(override);
+    expect(getPendingEvaluation(key)).toBeUndefined();
+  });
+});
+
+describe("overrideResult", () => {
+  it("passes and records the author and reason", () => {
+    const result = overrideResult(override);
+
+    expect(result.conclusion).toBe("success");
+    expect(result.title).toBe("Overridden by @alice");
+    expect(result.summary).toContain("overridden by @alice for commit `abc1234`");
+    expect(result.summary).toContain("**Reason:** Generated code");
+  });
+});
+
+describe("canOverride", () => {
+  function createOctokit(memberships: Record<string, string>) {
+    return {
+      request: vi.fn().mockImplementation((_route: string, params: any) => {
+        const state = memberships[params.team_slug];
+        if (!state) return Promise.reject(Object.assign(new Error("Not Found"), { status: 404 }));
+        return Promise.resolve({ data: { state } });
+      }),
+    } as any;
+  }
+
+  it("denies everyone without an overrides config", async () => {
+    expect(await canOverride(createOctokit({}), "org", "alice", undefined, logger)).toBe(false);
+  });
+
+  it("allows listed users case-insensitively", async () => {
+    const octokit = createOctokit({});
+    const config = { allowed_teams: [], allowed_users: ["Alice"] };
+
+    expect(await canOverride(octokit, "org", "alice", config, logger)).toBe(true);
+    expect(octokit.request).not.toHaveBeenCalled();
+  });
+
+  it("allows active members of an allowed team", async () => {
+    const octokit = createOctokit({ "release-managers": "active" });
+    const config = { allowed_teams: ["platform", "release-managers"], allowed_users: [] };
+
+    expect(await canOverride(octokit, "org", "alice", config, logger)).toBe(true);
+    expect(octokit.request).toHaveBeenCalledWith(
+      "GET /orgs/{org}/teams/{team_slug}/memberships/{username}",
+      { org: "org", team_slug: "release-managers", username: "alice" },
+    );
+  });
+
+  it("denies pending team invitations", async () => {
+    const octokit = createOctokit({ "release-managers": "pending" });
+    const config = { allowed_teams: ["release-managers"], allowed_users: [] };
+
+    expect(await canOverride(octokit, "org", "alice", config, logger)).toBe(false);
+  });
+
+  it("rethrows unexpected API errors", async () => {
+    const octokit = {
+      request: vi.fn().mockRejectedValue(Object.assign(new Error("Bad request"), { status: 400 })),
+    } as any;
+    const config = { allowed_teams: ["release-managers"], allowed_users: [] };
+
+    await expect(canOverride(octokit, "org", "alice", config, logger)).rejects.toThrow("Bad request");
+  });
+});
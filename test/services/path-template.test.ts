@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import {
+  compileTemplate,
+  renderTemplate,
+  templatePlaceholders,
+} from "../../src/services/path-template.js";
+
+describe("templatePlaceholders", () => {
+  it("lists placeholder names in order", () => {
+    expect(templatePlaceholders("src/{path}/{name}.ts")).toEqual(["path", "name"]);
+  });
+
+  it("returns an empty list for literal paths", () => {
+    expect(templatePlaceholders("CHANGELOG.md")).toEqual([]);
+  });
+});
+
+describe("compileTemplate", () => {
+  const match = compileTemplate("src/{path}/{name}.ts");
+
+  it("captures nested directories into {path}", () => {
+    expect(match("src/api/users/handler.ts")).toEqual({ path: "api/users", name: "handler" });
+  });
+
+  it("lets {path}/ match no directories at all", () => {
+    expect(match("src/index.ts")).toEqual({ path: "", name: "index" });
+  });
+
+  it("keeps other placeholders within a single segment", () => {
+    const single = compileTemplate("proto/{name}.proto");
+    expect(single("proto/users.proto")).toEqual({ name: "users" });
+    expect(single("proto/v1/users.proto")).toBeNull();
+  });
+
+  it("treats regex characters in the template literally", () => {
+    const literal = compileTemplate("src/{name}.test.ts");
+    expect(literal("src/a.test.ts")).toEqual({ name: "a" });
+    expect(literal("src/aXtestXts")).toBeNull();
+  });
+
+  it("returns null for non-matching paths", () => {
+    expect(match("lib/index.ts")).toBeNull();
+    expect(match("src/index.js")).toBeNull();
+  });
+});
+
+describe("renderTemplate", () => {
+  it("fills placeholders with captured values", () => {
+    expect(renderTemplate("test/{path}/{name}.test.ts", { path: "api/users", name: "handler" }))
+      .toBe("test/api/users/handler.test.ts");
+  });
+
+  it("collapses an empty {path}/", () => {
+    expect(renderTemplate("test/{path}/{name}.test.ts", { path: "", name: "index" }))
+      .toBe("test/index.test.ts");
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { resumePendingEvaluations } from "../../src/services/pending-resolver.js";
+import {
+  clearPendingEvaluations,
+  getPendingKey,
+  getPendingEvaluation,
+  setPendingEvaluation,
+  type PendingEvaluation,
+} from "../../src/checks/external-status.js";
+
+function createLogger() {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+  } as any;
+}
+
+function pending(overrides: Partial<PendingEvaluation> = {}): PendingEvaluation {
+  return {
+    owner: "owner",
+    repo: "repo",
+    headSha: "abc123",
+    ruleName: "lint-check",
+    requiredChecks: ["frontend-lint"],
+    checkRunId: 42,
+    createdAt: Date.now(),
+    timeoutMinutes: 30,
+    ...overrides,
+  };
+}
+
+function createMockApp(installationOctokit: any, installationLookup?: () => Promise<any>) {
+  const appOctokit = {
+    request: vi.fn().mockImplementation(
+      installationLookup ?? (() => Promise.resolve({ data: { id: 7 } })),
+    ),
+  };
+
+  return {
+    auth: vi.fn().mockImplementation((id?: number) =>
+      Promise.resolve(id === undefined ? appOctokit : installationOctokit),
+    ),
+    log: createLogger(),
+  } as any;
+}
+
+describe("resumePendingEvaluations", () => {
+  beforeEach(() => {
+    clearPendingEvaluations();
+  });
+
+  it("does nothing when there are no pending evaluations", async () => {
+    const app = createMockApp({ request: vi.fn() });
+
+    await resumePendingEvaluations(app);
+
+    expect(app.auth).not.toHaveBeenCalled();
+  });
+
+  it("resolves reloaded evaluations and completes their check runs", async () => {
+    const key = getPendingKey("owner", "repo", "abc123", "lint-check");
+    setPendingEvaluation(key, pending());
+
+    const octokit = {
+      request: vi.fn().mockImplementation((route: string) => {
+        if (route === "GET /repos/{owner}/{repo}/commits/{ref}/check-runs") {
+          return Promise.resolve({
+            data: { check_runs: [{ name: "frontend-lint", status: "completed", conclusion: "success" }] },
+          });
+        }
+        return Promise.resolve({ data: {} });
+      }),
+    };
+    const app = createMockApp(octokit);
+
+    await resumePendingEvaluations(app);
+
+    expect(app.auth).toHaveBeenCalledWith(7);
+    expect(octokit.request).toHaveBeenCalledWith(
+      "PATCH /repos/{owner}/{repo}/check-runs/{check_run_id}",
+      expect.objectContaining({ check_run_id: 42, status: "completed", conclusion: "success" }),
+    );
+    expect(getPendingEvaluation(key)).toBeUndefined();
+  });
+
+  it("keeps evaluations that are still pending", async () => {
+    const key = getPendingKey("owner", "repo", "abc123", "lint-check");
+    setPendingEvaluation(key, pending());
+
+    const octokit = {
+      request: vi.fn().mockResolvedValue({
+        data: { check_runs: [{ name: "frontend-lint", status: "in_progress", conclusion: null }] },
+      }),
+    };
+    const app = createMockApp(octokit);
+
+    await resumePendingEvaluations(app);
+
+    expect(getPendingEvaluation(key)).toBeDefined();
+    expect(octokit.request).not.toHaveBeenCalledWith(
+      "PATCH /repos/{owner}/{repo}/check-runs/{check_run_id}",
+      expect.anything(),
+    );
+  });
+
+  it("drops evaluations for repos the app is no longer installed on", async () => {
+    const key = getPendingKey("owner", "repo", "abc123", "lint-check");
+    setPendingEvaluation(key, pending());
+
+    const app = createMockApp({ request: vi.fn() }, () =>
+      Promise.reject(Object.assign(new Error("Not Found"), { status: 404 })),
+    );
+
+    await resumePendingEvaluations(app);
+
+    expect(getPendingEvaluation(key)).toBeUndefined();
+  });
+});
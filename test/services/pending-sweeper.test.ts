@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { sweepExpiredEvaluations } from "../../src/services/pending-sweeper.js";
+import {
+  clearPendingEvaluations,
+  getPendingKey,
+  getPendingEvaluation,
+  setPendingEvaluation,
+  type PendingEvaluation,
+} from "../../src/checks/external-status.js";
+
+function createLogger() {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+  } as any;
+}
+
+function pending(overrides: Partial<PendingEvaluation> = {}): PendingEvaluation {
+  return {
+    owner: "owner",
+    repo: "repo",
+    headSha: "abc123",
+    ruleName: "lint-check",
+    requiredChecks: ["frontend-lint"],
+    checkRunId: 42,
+    createdAt: Date.now() - 31 * 60 * 1000, // 31 minutes ago
+    timeoutMinutes: 30,
+    prNumber: 7,
+    ...overrides,
+  };
+}
+
+function createMockOctokit() {
+  return {
+    request: vi.fn().mockImplementation((route: string) => {
+      if (route === "GET /repos/{owner}/{repo}/issues/{issue_number}/comments") {
+        return Promise.resolve({ data: [] });
+      }
+      return Promise.resolve({ data: {} });
+    }),
+  };
+}
+
+function createMockApp(octokit: any, installationError?: Error) {
+  const appOctokit = {
+    request: installationError
+      ? vi.fn().mockRejectedValue(installationError)
+      : vi.fn().mockResolvedValue({ data: { id: 7 } }),
+  };
+
+  return {
+    auth: vi.fn().mockImplementation((id?: number) =>
+      Promise.resolve(id === undefined ? appOctokit : octokit),
+    ),
+    log: createLogger(),
+  } as any;
+}
+
+describe("sweepExpiredEvaluations", () => {
+  beforeEach(() => {
+    clearPendingEvaluations();
+  });
+
+  it("fails expired evaluations and posts the sticky PR comment", async () => {
+    const key = getPendingKey("owner", "repo", "abc123", "lint-check");
+    setPendingEvaluation(key, pending());
+    const octokit = createMockOctokit();
+
+    await sweepExpiredEvaluations(createMockApp(octokit));
+
+    expect(octokit.request).toHaveBeenCalledWith(
+      "PATCH /repos/{owner}/{repo}/check-runs/{check_run_id}",
+      expect.objectContaining({
+        check_run_id: 42,
+        status: "completed",
+        conclusion: "failure",
+        output: expect.objectContaining({ title: "Timed out waiting for required checks" }),
+      }),
+    );
+
+    const postComment = octokit.request.mock.calls.find(
+      (call: any[]) => call[0] === "POST /repos/{owner}/{repo}/issues/{issue_number}/comments",
+    );
+    expect(postComment).toBeDefined();
+    expect(postComment![1].issue_number).toBe(7);
+    expect(postComment![1].body).toContain("lint-check");
+
+    expect(getPendingEvaluation(key)).toBeUndefined();
+  });
+
+  it("uses the configured timeout conclusion", async () => {
+    setPendingEvaluation(
+      getPendingKey("owner", "repo", "abc123", "lint-check"),
+      pending({ timeoutConclusion: "neutral" }),
+    );
+    const octokit = createMockOctokit();
+
+    await sweepExpiredEvaluations(createMockApp(octokit));
+
+    expect(octokit.request).toHaveBeenCalledWith(
+      "PATCH /repos/{owner}/{repo}/check-runs/{check_run_id}",
+      expect.objectContaining({ conclusion: "neutral" }),
+    );
+
+    const postComment = octokit.request.mock.calls.find(
+      (call: any[]) => call[0] === "POST /repos/{owner}/{repo}/issues/{issue_number}/comments",
+    );
+    expect(postComment).toBeUndefined();
+  });
+
+  it("does not comment for rules with notify: false", async () => {
+    setPendingEvaluation(
+      getPendingKey("owner", "repo", "abc123", "lint-check"),
+      pending({ notify: false }),
+    );
+    const octokit = createMockOctokit();
+
+    await sweepExpiredEvaluations(createMockApp(octokit));
+
+    const listComments = octokit.request.mock.calls.find(
+      (call: any[]) => call[0] === "GET /repos/{owner}/{repo}/issues/{issue_number}/comments",
+    );
+    expect(listComments).toBeUndefined();
+  });
+
+  it("drops the repo's evaluations when the app is no longer installed", async () => {
+    const expiredKey = getPendingKey("owner", "repo", "abc123", "lint-check");
+    const freshKey = getPendingKey("owner", "repo", "def456", "lint-check");
+    const otherKey = getPendingKey("owner", "other-repo", "abc123", "lint-check");
+    setPendingEvaluation(expiredKey, pending());
+    setPendingEvaluation(freshKey, pending({ headSha: "def456", createdAt: Date.now() }));
+    setPendingEvaluation(otherKey, pending({ repo: "other-repo", createdAt: Date.now() }));
+    const app = createMockApp(createMockOctokit(), Object.assign(new Error("Not Found"), { status: 404 }));
+
+    await sweepExpiredEvaluations(app);
+
+    expect(getPendingEvaluation(expiredKey)).toBeUndefined();
+    expect(getPendingEvaluation(freshKey)).toBeUndefined();
+    expect(getPendingEvaluation(otherKey)).toBeDefined();
+  });
+
+  it("keeps evaluations when authentication fails transiently", async () => {
+    const key = getPendingKey("owner", "repo", "abc123", "lint-check");
+    setPendingEvaluation(key, pending());
+    const app = createMockApp(createMockOctokit(), Object.assign(new Error("Bad credentials"), { status: 401 }));
+
+    await sweepExpiredEvaluations(app);
+
+    expect(getPendingEvaluation(key)).toBeDefined();
+    expect(app.log.error).toHaveBeenCalled();
+  });
+
+  it("leaves evaluations that have not timed out", async () => {
+    const key = getPendingKey("owner", "repo", "abc123", "lint-check");
+    setPendingEvaluation(key, pending({ createdAt: Date.now() }));
+    const app = createMockApp(createMockOctokit());
+
+    await sweepExpiredEvaluations(app);
+
+    expect(app.auth).not.toHaveBeenCalled();
+    expect(getPendingEvaluation(key)).toBeDefined();
+  });
+});
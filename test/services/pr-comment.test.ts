@@ -6,6 +6,8 @@ import {
   buildFailureBody,
   buildSuccessBody,
   findBotComment,
+  mergeFailuresIntoComment,
+  parseFailureRows,
 } from "../../src/services/pr-comment.js";
 import type { FailureSummary } from "../../src/services/pr-comment.js";
 
@@ -111,6 +113,36 @@ describe("pr-comment", () => {
     });
   });
 
+  describe("buildFailureBody with warnings", () => {
+    const warning = { ruleName: "pr-size", title: "PR exceeds 1 size limit(s)", summary: "", severity: "warning" as const };
+
+    it("lists warnings in a separate section below failures", () => {
+      const body = buildFailureBody([...sampleFailures, warning], "owner", "repo", 1);
+
+      expect(body).toContain("2 check(s) failed");
+      expect(body).toContain("### ⚠️ Warnings (1)");
+      expect(body.indexOf("Warnings (1)")).toBeGreaterThan(body.indexOf("`lockfile-check`"));
+      expect(body).toContain("| `pr-size` | ⚠️ Warning | PR exceeds 1 size limit(s) |");
+    });
+
+    it("uses a warnings-only header when nothing failed", () => {
+      const body = buildFailureBody([warning]);
+
+      expect(body).toContain("## ⚠️ Branch Guard: 1 warning(s)");
+      expect(body).not.toContain("failed");
+      expect(body).toContain("Warnings don't block merging");
+    });
+
+    it("round-trips warning rows through parseFailureRows", () => {
+      const body = buildFailureBody([sampleFailures[0], warning]);
+
+      expect(parseFailureRows(body)).toEqual([
+        { ruleName: "migration-sync", title: "Missing migrations", summary: "" },
+        { ruleName: "pr-size", title: "PR exceeds 1 size limit(s)", summary: "", severity: "warning" },
+      ]);
+    });
+  });
+
   describe("buildSuccessBody", () => {
     it("includes marker and success message", () => {
       const body = buildSuccessBody();
@@ -298,4 +330,95 @@ describe("pr-comment", () => {
       expect(logger.error).toHaveBeenCalled();
     });
   });
+
+  describe("parseFailureRows", () => {
+    it("recovers rule names and titles from a failure comment", () => {
+      const body = buildFailureBody(sampleFailures, "owner", "repo", 1);
+
+      expect(parseFailureRows(body)).toEqual([
+        { ruleName: "migration-sync", title: "Missing migrations", summary: "" },
+        { ruleName: "lockfile-check", title: "Lockfile outdated", summary: "" },
+      ]);
+    });
+
+    it("returns no rows for a success comment", () => {
+      expect(parseFailureRows(buildSuccessBody())).toEqual([]);
+    });
+  });
+
+  describe("mergeFailuresIntoComment", () => {
+    it("replaces the row for the evaluated rule and keeps the others", async () => {
+      const octokit = createMockOctokit({
+        existingComments: [{ id: 90, body: buildFailureBody(sampleFailures, "owner", "repo", 1) }],
+      });
+      const logger = createLogger();
+
+      await mergeFailuresIntoComment(
+        octokit,
+        "owner",
+        "repo",
+        1,
+        ["migration-sync"],
+        [{ ruleName: "migration-sync", title: "Timed out", summary: "Timed out" }],
+        logger,
+      );
+
+      const patchCall = octokit.request.mock.calls.find(
+        (call: any[]) => call[0] === "PATCH /repos/{owner}/{repo}/issues/comments/{comment_id}",
+      );
+      expect(patchCall).toBeDefined();
+      expect(patchCall![1].body).toContain("2 check(s) failed");
+      expect(patchCall![1].body).toContain("| `lockfile-check` | ❌ Failed | Lockfile outdated |");
+      expect(patchCall![1].body).toContain("| `migration-sync` | ❌ Failed | Timed out |");
+      expect(patchCall![1].body).not.toContain("Missing migrations");
+    });
+
+    it("creates a comment when none exists and there are failures", async () => {
+      const octokit = createMockOctokit({ existingComments: [] });
+      const logger = createLogger();
+
+      await mergeFailuresIntoComment(
+        octokit,
+        "owner",
+        "repo",
+        1,
+        ["lint-check"],
+        [{ ruleName: "lint-check", title: "Timed out", summary: "Timed out" }],
+        logger,
+      );
+
+      const postCall = octokit.request.mock.calls.find(
+        (call: any[]) => call[0] === "POST /repos/{owner}/{repo}/issues/{issue_number}/comments",
+      );
+      expect(postCall).toBeDefined();
+      expect(postCall![1].body).toContain("lint-check");
+    });
+
+    it("switches to success when the last failing rule is resolved", async () => {
+      const octokit = createMockOctokit({
+        existingComments: [{ id: 91, body: buildFailureBody([sampleFailures[0]], "owner", "repo", 1) }],
+      });
+      const logger = createLogger();
+
+      await mergeFailuresIntoComment(octokit, "owner", "repo", 1, ["migration-sync"], [], logger);
+
+      const patchCall = octokit.request.mock.calls.find(
+        (call: any[]) => call[0] === "PATCH /repos/{owner}/{repo}/issues/comments/{comment_id}",
+      );
+      expect(patchCall).toBeDefined();
+      expect(patchCall![1].body).toContain("All checks passed");
+    });
+
+    it("does not post a comment when nothing failed and none exists", async () => {
+      const octokit = createMockOctokit({ existingComments: [] });
+      const logger = createLogger();
+
+      await mergeFailuresIntoComment(octokit, "owner", "repo", 1, ["lint-check"], [], logger);
+
+      const writeCall = octokit.request.mock.calls.find(
+        (call: any[]) => call[0].startsWith("POST") || call[0].startsWith("PATCH"),
+      );
+      expect(writeCall).toBeUndefined();
+    });
+  });
 });
@@ -1,19 +1,35 @@
 import { describe, it, expect, vi } from "vitest";
-import { getPrChangedFiles } from "../../src/services/pr-files.js";
+import { getPrChangedFiles, getComparedFiles } from "../../src/services/pr-files.js";
 
 describe("getPrChangedFiles", () => {
-  it("returns file paths from a single page", async () => {
+  it("returns files with line counts and patches from a single page", async () => {
     const octokit = {
       request: vi.fn().mockResolvedValueOnce({
         data: [
-          { filename: "src/index.ts" },
-          { filename: "src/utils.ts" },
+          { filename: "src/index.ts", status: "modified", additions: 10, deletions: 2, patch: "@@ -1 +1 @@" },
+          { filename: "src/utils.ts", status: "removed", additions: 0, deletions: 5 },
         ],
       }),
     } as any;
 
     const files = await getPrChangedFiles(octokit, "owner", "repo", 1);
-    expect(files).toEqual(["src/index.ts", "src/utils.ts"]);
+    expect(files).toEqual([
+      { filename: "src/index.ts", status: "modified", additions: 10, deletions: 2, patch: "@@ -1 +1 @@" },
+      { filename: "src/utils.ts", status: "removed", additions: 0, deletions: 5, patch: undefined },
+    ]);
+  });
+
+  it("keeps the previous path of renamed files", async () => {
+    const octokit = {
+      request: vi.fn().mockResolvedValueOnce({
+        data: [
+          { filename: "src/new.ts", previous_filename: "src/old.ts", status: "renamed", additions: 0, deletions: 0 },
+        ],
+      }),
+    } as any;
+
+    const files = await getPrChangedFiles(octokit, "owner", "repo", 1);
+    expect(files[0]).toEqual(expect.objectContaining({ filename: "src/new.ts", previousFilename: "src/old.ts", status: "renamed" }));
   });
 
   it("paginates through multiple pages", async () => {
@@ -29,8 +45,8 @@ describe("getPrChangedFiles", () => {
 
     const files = await getPrChangedFiles(octokit, "owner", "repo", 1);
     expect(files).toHaveLength(102);
-    expect(files[0]).toBe("file-0.ts");
-    expect(files[101]).toBe("file-101.ts");
+    expect(files[0].filename).toBe("file-0.ts");
+    expect(files[101].filename).toBe("file-101.ts");
     expect(octokit.request).toHaveBeenCalledTimes(2);
   });
 
@@ -62,3 +78,36 @@ describe("getPrChangedFiles", () => {
     expect(logger.warn).toHaveBeenCalled();
   });
 });
+
+describe("getComparedFiles", () => {
+  it("returns the files changed between two commits", async () => {
+    const octokit = {
+      request: vi.fn().mockResolvedValueOnce({
+        data: {
+          files: [
+            { filename: "src/index.ts", status: "modified", additions: 3, deletions: 1, patch: "@@ -1 +1 @@" },
+          ],
+        },
+      }),
+    } as any;
+
+    const files = await getComparedFiles(octokit, "owner", "repo", "base123", "head456");
+    expect(files).toEqual([
+      { filename: "src/index.ts", status: "modified", additions: 3, deletions: 1, patch: "@@ -1 +1 @@" },
+    ]);
+    expect(octokit.request).toHaveBeenCalledWith(
+      "GET /repos/{owner}/{repo}/compare/{basehead}",
+      { owner: "owner", repo: "repo", basehead: "base123...head456" },
+    );
+  });
+
+  it("warns when the comparison may be truncated", async () => {
+    const files = Array.from({ length: 300 }, (_, i) => ({ filename: `file-${i}.ts`, status: "added" }));
+    const octokit = { request: vi.fn().mockResolvedValueOnce({ data: { files } }) } as any;
+    const logger = { warn: vi.fn() } as any;
+
+    const result = await getComparedFiles(octokit, "owner", "repo", "base123", "head456", logger);
+    expect(result).toHaveLength(300);
+    expect(logger.warn).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../../src/services/config.js", () => ({
+  loadConfig: vi.fn(),
+}));
+
+vi.mock("../../src/services/open-prs.js", () => ({
+  listOpenPrs: vi.fn(),
+  evaluateOpenPrs: vi.fn(),
+}));
+
+import { loadConfig } from "../../src/services/config.js";
+import { listOpenPrs, evaluateOpenPrs } from "../../src/services/open-prs.js";
+import {
+  evaluateRepoOnSchedule,
+  runScheduledEvaluation,
+  clearScheduleHistory,
+} from "../../src/services/scheduler.js";
+
+const mockLoadConfig = loadConfig as any;
+const mockListOpenPrs = listOpenPrs as any;
+const mockEvaluateOpenPrs = evaluateOpenPrs as any;
+
+function createLogger() {
+  return {
+    debug: vi.fn(),
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    child: vi.fn().mockReturnThis(),
+  } as any;
+}
+
+const branchAgeRule = {
+  name: "stale-branch",
+  description: "Test",
+  check_type: "branch_age",
+  on: { branches: ["main"], paths: { include: ["**/*"], exclude: [] } },
+  config: { max_age_days: 14 },
+};
+
+const filePairRule = {
+  name: "lockfile-check",
+  description: "Test",
+  check_type: "file_pair",
+  on: { branches: ["main"], paths: { include: ["package.json"], exclude: [] } },
+  config: { companion: "package-lock.json", mode: "any" },
+};
+
+const samplePr = { number: 1, head: { sha: "abc" }, base: { ref: "main", sha: "def" } };
+
+describe("evaluateRepoOnSchedule", () => {
+  const octokit = {} as any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearScheduleHistory();
+    mockListOpenPrs.mockResolvedValue([samplePr]);
+  });
+
+  it("re-evaluates only time-sensitive rules on open PRs", async () => {
+    const config = { rules: [branchAgeRule, filePairRule] };
+    mockLoadConfig.mockResolvedValue({ status: "loaded", config });
+
+    await evaluateRepoOnSchedule(octokit, "owner", "repo", createLogger(), 0);
+
+    expect(mockEvaluateOpenPrs).toHaveBeenCalledWith(
+      octokit,
+      "owner",
+      "repo",
+      config,
+      [samplePr],
+      expect.anything(),
+      ["stale-branch"],
+    );
+  });
+
+  it("skips repos without time-sensitive rules", async () => {
+    mockLoadConfig.mockResolvedValue({ status: "loaded", config: { rules: [filePairRule] } });
+
+    await evaluateRepoOnSchedule(octokit, "owner", "repo", createLogger(), 0);
+
+    expect(mockListOpenPrs).not.toHaveBeenCalled();
+  });
+
+  it("skips repos without a loaded config", async () => {
+    mockLoadConfig.mockResolvedValue({ status: "missing" });
+
+    await evaluateRepoOnSchedule(octokit, "owner", "repo", createLogger(), 0);
+
+    expect(mockListOpenPrs).not.toHaveBeenCalled();
+  });
+
+  it("skips repos that disable scheduled evaluation", async () => {
+    mockLoadConfig.mockResolvedValue({
+      status: "loaded",
+      config: { rules: [branchAgeRule], schedule: { enabled: false, interval_minutes: 60 } },
+    });
+
+    await evaluateRepoOnSchedule(octokit, "owner", "repo", createLogger(), 0);
+
+    expect(mockListOpenPrs).not.toHaveBeenCalled();
+  });
+
+  it("honours the configured interval between runs", async () => {
+    mockLoadConfig.mockResolvedValue({
+      status: "loaded",
+      config: { rules: [branchAgeRule], schedule: { enabled: true, interval_minutes: 120 } },
+    });
+    const minutes = (n: number) => n * 60 * 1000;
+
+    await evaluateRepoOnSchedule(octokit, "owner", "repo", createLogger(), minutes(0));
+    await evaluateRepoOnSchedule(octokit, "owner", "repo", createLogger(), minutes(60));
+    expect(mockEvaluateOpenPrs).toHaveBeenCalledTimes(1);
+
+    await evaluateRepoOnSchedule(octokit, "owner", "repo", createLogger(), minutes(121));
+    expect(mockEvaluateOpenPrs).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("runScheduledEvaluation", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearScheduleHistory();
+    mockListOpenPrs.mockResolvedValue([samplePr]);
+    mockLoadConfig.mockResolvedValue({ status: "loaded", config: { rules: [branchAgeRule] } });
+  });
+
+  it("walks every installation and repository", async () => {
+    const appOctokit = {
+      request: vi.fn().mockResolvedValue({ data: [{ id: 1 }, { id: 2 }] }),
+    };
+    const installationOctokit = {
+      request: vi.fn().mockResolvedValue({
+        data: { repositories: [{ name: "repo", owner: { login: "owner" } }] },
+      }),
+    };
+    const app = {
+      auth: vi.fn().mockImplementation((id?: number) =>
+        Promise.resolve(id === undefined ? appOctokit : installationOctokit),
+      ),
+      log: createLogger(),
+    } as any;
+
+    await runScheduledEvaluation(app, 0);
+
+    expect(app.auth).toHaveBeenCalledWith(1);
+    expect(app.auth).toHaveBeenCalledWith(2);
+    // Same repo seen twice within the interval — evaluated once
+    expect(mockEvaluateOpenPrs).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { applySeverity, commentSeverity } from "../../src/services/severity.js";
+import type { CheckResult } from "../../src/types.js";
+
+const failure: CheckResult = {
+  conclusion: "failure",
+  title: "Problem",
+  summary: "Something is wrong",
+  annotations: [
+    { path: "src/app.ts", startLine: 1, endLine: 1, level: "failure", message: "Here" },
+    { path: "src/app.ts", startLine: 2, endLine: 2, level: "notice", message: "FYI" },
+  ],
+};
+
+describe("applySeverity", () => {
+  it("leaves error-severity results unchanged", () => {
+    expect(applySeverity(failure, "error")).toBe(failure);
+    expect(applySeverity(failure, undefined)).toBe(failure);
+  });
+
+  it("posts warning failures as neutral with warning annotations", () => {
+    const result = applySeverity(failure, "warning");
+
+    expect(result.conclusion).toBe("neutral");
+    expect(result.title).toBe("Problem");
+    expect(result.annotations!.map((a) => a.level)).toEqual(["warning", "notice"]);
+  });
+
+  it("posts info failures as neutral with notice annotations", () => {
+    const result = applySeverity(failure, "info");
+
+    expect(result.conclusion).toBe("neutral");
+    expect(result.annotations!.map((a) => a.level)).toEqual(["notice", "notice"]);
+  });
+
+  it("does not change successful results", () => {
+    const success: CheckResult = { conclusion: "success", title: "OK", summary: "Fine" };
+    expect(applySeverity(success, "warning")).toBe(success);
+  });
+});
+
+describe("commentSeverity", () => {
+  it("maps rule severity to the PR comment section", () => {
+    expect(commentSeverity("error")).toBe("error");
+    expect(commentSeverity(undefined)).toBe("error");
+    expect(commentSeverity("warning")).toBe("warning");
+    expect(commentSeverity("info")).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { buildShadowReport, isShadowRule } from "../../src/services/shadow.js";
+import type { Config, Rule } from "../../src/types.js";
+
+describe("isShadowRule", () => {
+  const rule = { name: "new-rule", mode: "enforce" } as Rule;
+
+  it("follows the rule's own mode", () => {
+    expect(isShadowRule(rule, { rules: [] } as unknown as Config)).toBe(false);
+    expect(isShadowRule({ ...rule, mode: "shadow" } as Rule, { rules: [] } as unknown as Config)).toBe(true);
+  });
+
+  it("puts every rule in shadow mode when the config mode is shadow", () => {
+    expect(isShadowRule(rule, { rules: [], mode: "shadow" } as unknown as Config)).toBe(true);
+  });
+});
+
+describe("buildShadowReport", () => {
+  it("tallies would-be failures per rule across PRs", () => {
+    const report = buildShadowReport(new Map([
+      [1, [
+        { ruleName: "pr-size", conclusion: "failure" as const, title: "Too big" },
+        { ruleName: "changelog", conclusion: "success" as const, title: "OK" },
+      ]],
+      [2, [{ ruleName: "pr-size", conclusion: "success" as const, title: "OK" }]],
+      [3, [{ ruleName: "pr-size", conclusion: "error" as const, title: "Internal error: boom" }]],
+    ]));
+
+    expect(report).toEqual([
+      { ruleName: "pr-size", evaluated: 3, wouldFail: 2, failingPrs: [1, 3] },
+      { ruleName: "changelog", evaluated: 1, wouldFail: 0, failingPrs: [] },
+    ]);
+  });
+
+  it("does not count neutral or pending outcomes as failures", () => {
+    const report = buildShadowReport(new Map([
+      [1, [{ ruleName: "ci", conclusion: "pending" as const, title: "Waiting for: lint" }]],
+      [2, [{ ruleName: "ci", conclusion: "neutral" as const, title: "Soft failure" }]],
+    ]));
+
+    expect(report).toEqual([{ ruleName: "ci", evaluated: 2, wouldFail: 0, failingPrs: [] }]);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+  MemoryStateStore,
+  FileStateStore,
+  createStateStore,
+  configureStateStores,
+  lazyStateStore,
+} from "../../src/services/state-store.js";
+
+describe("MemoryStateStore", () => {
+  it("stores, lists and deletes entries", () => {
+    const store = new MemoryStateStore<number>();
+    store.set("a", 1);
+    store.set("b", 2);
+
+    expect(store.get("a")).toBe(1);
+    expect(store.entries()).toEqual([["a", 1], ["b", 2]]);
+
+    store.delete("a");
+    expect(store.get("a")).toBeUndefined();
+
+    store.clear();
+    expect(store.entries()).toEqual([]);
+  });
+});
+
+describe("FileStateStore", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "branch-guard-state-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("persists entries across instances", () => {
+    const filePath = path.join(dir, "pending.json");
+
+    const first = new FileStateStore<{ id: number }>(filePath);
+    first.set("key", { id: 42 });
+
+    const second = new FileStateStore<{ id: number }>(filePath);
+    expect(second.get("key")).toEqual({ id: 42 });
+  });
+
+  it("persists deletions", () => {
+    const filePath = path.join(dir, "pending.json");
+
+    const first = new FileStateStore<number>(filePath);
+    first.set("a", 1);
+    first.set("b", 2);
+    first.delete("a");
+
+    const second = new FileStateStore<number>(filePath);
+    expect(second.entries()).toEqual([["b", 2]]);
+  });
+
+  it("creates the parent directory on first write", () => {
+    const filePath = path.join(dir, "nested", "state.json");
+
+    const store = new FileStateStore<number>(filePath);
+    store.set("a", 1);
+
+    expect(fs.existsSync(filePath)).toBe(true);
+  });
+
+  it("starts empty when the state file is corrupt", () => {
+    const filePath = path.join(dir, "pending.json");
+    fs.writeFileSync(filePath, "{not json");
+
+    const logger = { warn: vi.fn() } as any;
+
+    const store = new FileStateStore<number>(filePath, logger);
+    expect(store.entries()).toEqual([]);
+    expect(logger.warn).toHaveBeenCalledWith({ filePath }, "Ignoring unreadable state file");
+  });
+});
+
+describe("createStateStore", () => {
+  it("defaults to the memory backend", () => {
+    expect(createStateStore("test", {})).toBeInstanceOf(MemoryStateStore);
+  });
+
+  it("uses the file backend when STATE_STORE=file", () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "branch-guard-state-"));
+    try {
+      const store = createStateStore<number>("test", { STATE_STORE: "file", STATE_DIR: dir });
+      expect(store).toBeInstanceOf(FileStateStore);
+
+      store.set("a", 1);
+      expect(fs.existsSync(path.join(dir, "test.json"))).toBe(true);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("throws for an unknown backend", () => {
+    expect(() => createStateStore("test", { STATE_STORE: "redis" })).toThrow(
+      "Unknown STATE_STORE backend: redis",
+    );
+  });
+});
+
+describe("lazyStateStore", () => {
+  afterEach(() => {
+    delete process.env.STATE_STORE;
+  });
+
+  it("doesn't read STATE_STORE until first use", () => {
+    process.env.STATE_STORE = "redis";
+    const store = lazyStateStore<number>("test");
+
+    expect(() => store.get("a")).toThrow("Unknown STATE_STORE backend: redis");
+
+    process.env.STATE_STORE = "memory";
+    const valid = lazyStateStore<number>("test");
+    valid.set("a", 1);
+    expect(valid.entries()).toEqual([["a", 1]]);
+  });
+});
+
+describe("configureStateStores", () => {
+  it("rejects an unknown backend at startup", () => {
+    const logger = { warn: vi.fn() } as any;
+
+    expect(() => configureStateStores(logger, { STATE_STORE: "redis" })).toThrow(
+      'Unknown STATE_STORE backend: redis (expected "memory" or "file")',
+    );
+    expect(() => configureStateStores(logger, { STATE_STORE: "file" })).not.toThrow();
+  });
+});